@@ -0,0 +1,156 @@
+import { useState } from 'react';
+
+import Alert from '../assets/Alert';
+import Notification from '../assets/Notification';
+import PasswordRules from './PasswordRules';
+
+import type { ApiError } from '../../lib/api';
+import { changePassword } from '../../lib/api/auth';
+import { isStrongPassword } from '../../lib/password';
+
+// Types
+type ChangePasswordProps = {
+  onOthersSignedOut: () => void;
+};
+
+// Component
+const ChangePassword = ({ onOthersSignedOut }: ChangePasswordProps) => {
+  // Local state
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirm, setConfirm] = useState('');
+
+  const [submitLoading, setSubmitLoading] = useState(false);
+  const [error, setError] = useState<string | undefined>(undefined);
+  const [showComplete, setShowComplete] = useState(false);
+
+  // Handlers
+  const handleSubmit = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+
+    if (!isStrongPassword(newPassword)) {
+      setError('New password does not meet the requirements');
+    } else if (newPassword !== confirm) {
+      setError('Passwords do not match');
+    } else if (newPassword === currentPassword) {
+      setError('New password must be different from your current password');
+    } else {
+      setError(undefined);
+      setSubmitLoading(true);
+      setShowComplete(false);
+
+      changePassword({ currentPassword, newPassword })
+        .then(() => {
+          setSubmitLoading(false);
+          setCurrentPassword('');
+          setNewPassword('');
+          setConfirm('');
+          setShowComplete(true);
+
+          onOthersSignedOut();
+        })
+        .catch((error: ApiError) => {
+          setSubmitLoading(false);
+          setError(error.status === 401 ? 'Current password is incorrect' : error.message);
+        });
+    }
+  };
+
+  // Render
+  return (
+    <div className="border-t border-gray-200 pt-6">
+      <h3 className="text-lg font-medium leading-6 text-gray-900">Change password</h3>
+      <p className="mt-1 text-sm text-gray-500">
+        Changing your password signs you out everywhere except this browser.
+      </p>
+
+      {error ? (
+        <div className="mt-4">
+          <Alert type="error" message={error} onClose={() => setError(undefined)} />
+        </div>
+      ) : null}
+
+      <form className="mt-4 space-y-6" onSubmit={handleSubmit}>
+        <div>
+          <label htmlFor="current-password" className="sr-only">
+            Current password
+          </label>
+          <input
+            id="current-password"
+            name="current-password"
+            type="password"
+            autoComplete="current-password"
+            required
+            className="relative block w-full appearance-none rounded-md border border-gray-300 px-3 py-2 text-gray-900 placeholder-gray-500 focus:z-10 focus:border-indigo-500 focus:outline-none focus:ring-indigo-500 sm:text-sm"
+            placeholder="Current password"
+            value={currentPassword}
+            onChange={(e) => setCurrentPassword(e.target.value)}
+          />
+        </div>
+
+        <div>
+          <div className="-space-y-px rounded-md shadow-sm">
+            <div>
+              <label htmlFor="new-password" className="sr-only">
+                New password
+              </label>
+              <input
+                id="new-password"
+                name="new-password"
+                type="password"
+                autoComplete="new-password"
+                required
+                aria-describedby="new-password-rules"
+                className="relative block w-full appearance-none rounded-none rounded-t-md border border-gray-300 px-3 py-2 text-gray-900 placeholder-gray-500 focus:z-10 focus:border-indigo-500 focus:outline-none focus:ring-indigo-500 sm:text-sm"
+                placeholder="New password"
+                value={newPassword}
+                onChange={(e) => setNewPassword(e.target.value)}
+              />
+            </div>
+            <div>
+              <label htmlFor="confirm-new-password" className="sr-only">
+                Confirm new password
+              </label>
+              <input
+                id="confirm-new-password"
+                name="confirm-new-password"
+                type="password"
+                autoComplete="new-password"
+                required
+                className="relative block w-full appearance-none rounded-none rounded-b-md border border-gray-300 px-3 py-2 text-gray-900 placeholder-gray-500 focus:z-10 focus:border-indigo-500 focus:outline-none focus:ring-indigo-500 sm:text-sm"
+                placeholder="Confirm new password"
+                value={confirm}
+                onChange={(e) => setConfirm(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <PasswordRules id="new-password-rules" password={newPassword} />
+        </div>
+
+        <div>
+          <button
+            type="submit"
+            className={
+              `group w-full rounded-md border border-transparent bg-indigo-600 px-4 py-2 text-sm font-medium text-white focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2` +
+              (submitLoading ? ` opacity-75` : ` hover:bg-indigo-700`)
+            }
+            disabled={submitLoading}
+          >
+            {submitLoading ? `Please wait...` : `Change password`}
+          </button>
+        </div>
+      </form>
+
+      <Notification
+        visible={showComplete}
+        type="success"
+        title="Password changed"
+        description="You have been signed out on all of your other devices"
+        onClose={() => setShowComplete(false)}
+      />
+    </div>
+  );
+};
+
+export default ChangePassword;
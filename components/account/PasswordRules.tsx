@@ -0,0 +1,60 @@
+import { CheckIcon, XIcon } from '@heroicons/react/solid';
+
+import { checkPassword } from '../../lib/password';
+
+// Types
+type PasswordRulesProps = {
+  id: string;
+  password: string;
+};
+
+// Component
+const PasswordRules = ({ id, password }: PasswordRulesProps) => {
+  // Derived state
+  const checks = checkPassword(password);
+  const strength = checks.filter((check) => check.passed).length;
+
+  // Render
+  return (
+    <div>
+      <div className="mt-3 flex space-x-1" aria-hidden="true">
+        {checks.map((check, index) => (
+          <div
+            key={check.label}
+            className={
+              `h-1 flex-1 rounded-full` +
+              (index >= strength
+                ? ` bg-gray-200`
+                : strength === checks.length
+                ? ` bg-green-500`
+                : strength > 1
+                ? ` bg-yellow-400`
+                : ` bg-red-400`)
+            }
+          />
+        ))}
+      </div>
+
+      <ul id={id} className="mt-3 space-y-1">
+        {checks.map((check) => (
+          <li
+            key={check.label}
+            className={
+              `flex items-center text-sm` + (check.passed ? ` text-green-700` : ` text-gray-500`)
+            }
+          >
+            {check.passed ? (
+              <CheckIcon className="mr-1.5 h-4 w-4 flex-none text-green-500" />
+            ) : (
+              <XIcon className="mr-1.5 h-4 w-4 flex-none text-gray-400" />
+            )}
+            {check.label}
+            <span className="sr-only">{check.passed ? ` (met)` : ` (not met)`}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default PasswordRules;
@@ -0,0 +1,163 @@
+import { useState } from 'react';
+import { useRouter } from 'next/router';
+import { DesktopComputerIcon, DeviceMobileIcon } from '@heroicons/react/outline';
+
+import Alert from '../assets/Alert';
+
+import { useUserDispatch } from '../../hooks/useUser';
+
+import type { ApiError } from '../../lib/api';
+import { signOut, signOutOtherSessions, signOutSession } from '../../lib/api/auth';
+import type { Session } from '../../lib/api/types';
+import { formatTimeAgo } from '../../lib/dates';
+import { describeDevice, isMobileDevice } from '../../lib/sessions';
+
+// Types
+type SessionsProps = {
+  sessions?: Session[];
+  onChange: (sessions: Session[]) => void;
+};
+
+// Component
+const Sessions = ({ sessions, onChange }: SessionsProps) => {
+  // Hooks
+  const router = useRouter();
+  const userDispatch = useUserDispatch();
+
+  // Local state
+  const [loading, setLoading] = useState<string | undefined>(undefined);
+  const [error, setError] = useState<string | undefined>(undefined);
+
+  // Derived state
+  const hasOthers = (sessions ?? []).some((session) => !session.current);
+
+  // Handlers
+  const handleSignOut = (session: Session) => {
+    setError(undefined);
+    setLoading(session.id);
+
+    // Signing out this browser is a normal sign out
+    const request = session.current ? signOut() : signOutSession(session.id);
+
+    request
+      .then(() => {
+        setLoading(undefined);
+
+        if (session.current) {
+          userDispatch({ type: 'CLEAR_USER' });
+
+          // Bounce home
+          router.push('/');
+        } else {
+          onChange((sessions ?? []).filter((item) => item.id !== session.id));
+        }
+      })
+      .catch((error: ApiError) => {
+        setLoading(undefined);
+        setError(error.message);
+      });
+  };
+
+  const handleSignOutOthers = () => {
+    setError(undefined);
+    setLoading('others');
+
+    signOutOtherSessions()
+      .then(() => {
+        setLoading(undefined);
+        onChange((sessions ?? []).filter((session) => session.current));
+      })
+      .catch((error: ApiError) => {
+        setLoading(undefined);
+        setError(error.message);
+      });
+  };
+
+  // Render
+  return (
+    <div className="border-t border-gray-200 pt-6">
+      <h3 className="text-lg font-medium leading-6 text-gray-900">Sessions</h3>
+      <p className="mt-1 text-sm text-gray-500">
+        Browsers and devices that are signed in to your account.
+      </p>
+
+      {error ? (
+        <div className="mt-4">
+          <Alert type="error" message={error} onClose={() => setError(undefined)} />
+        </div>
+      ) : null}
+
+      {!sessions ? (
+        <div className="mt-4">
+          <Alert type="warning" message="Unable to load your sessions, please try again later" />
+        </div>
+      ) : (
+        <ul className="mt-4 divide-y divide-gray-200 border-t border-b border-gray-200">
+          {sessions.map((session) => {
+            const DeviceIcon = isMobileDevice(session.userAgent)
+              ? DeviceMobileIcon
+              : DesktopComputerIcon;
+
+            return (
+              <li key={session.id} className="flex items-center py-4">
+                <DeviceIcon className="h-6 w-6 flex-none text-gray-400" aria-hidden="true" />
+
+                <div className="ml-3 min-w-0 flex-1">
+                  <p className="text-sm font-medium text-gray-900">
+                    {describeDevice(session.userAgent)}
+                    {session.current ? (
+                      <span className="ml-2 inline-flex items-center rounded-full bg-green-100 px-2 py-0.5 text-xs font-medium text-green-800">
+                        This browser
+                      </span>
+                    ) : null}
+                  </p>
+                  <p className="truncate text-sm text-gray-500">
+                    {session.current ? (
+                      `Active now`
+                    ) : (
+                      // Relative to now, so the server and browser can disagree by a minute
+                      <span suppressHydrationWarning>
+                        Last active {formatTimeAgo(session.lastActiveAt)}
+                      </span>
+                    )}
+                    {session.ipAddress ? ` • ${session.ipAddress}` : ``}
+                  </p>
+                </div>
+
+                <button
+                  type="button"
+                  className={
+                    `ml-3 flex-none rounded-md bg-white text-sm font-medium text-indigo-600 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2` +
+                    (loading ? ` opacity-75` : ` hover:text-indigo-500`)
+                  }
+                  disabled={!!loading}
+                  onClick={() => handleSignOut(session)}
+                >
+                  {loading === session.id ? `Please wait...` : `Sign out`}
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {hasOthers ? (
+        <div className="mt-4">
+          <button
+            type="button"
+            className={
+              `w-full rounded-md border border-gray-300 bg-white py-2 px-4 text-sm font-medium text-gray-700 shadow-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2` +
+              (loading ? ` opacity-75` : ` hover:bg-gray-50`)
+            }
+            disabled={!!loading}
+            onClick={handleSignOutOthers}
+          >
+            {loading === 'others' ? `Please wait...` : `Sign out everywhere else`}
+          </button>
+        </div>
+      ) : null}
+    </div>
+  );
+};
+
+export default Sessions;
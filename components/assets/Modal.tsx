@@ -6,6 +6,7 @@ import { XIcon } from '@heroicons/react/outline';
 type BaseModalProps = {
   title: string;
   visible: boolean;
+  wide?: boolean;
 };
 
 interface CloseableModal extends BaseModalProps {
@@ -102,7 +103,8 @@ const Modal: React.FC<ModalProps> = (props) => {
 
             <div
               className={
-                `inline-block transform overflow-hidden rounded-lg bg-white px-4 pt-5 pb-4 text-left align-bottom shadow-xl transition-all sm:my-8 sm:w-full sm:max-w-lg sm:p-6 sm:align-middle` +
+                `inline-block transform overflow-hidden rounded-lg bg-white px-4 pt-5 pb-4 text-left align-bottom shadow-xl transition-all sm:my-8 sm:w-full sm:p-6 sm:align-middle` +
+                (props.wide ? ` w-full sm:max-w-4xl` : ` sm:max-w-lg`) +
                 (props.visible
                   ? ` translate-y-0 opacity-100 duration-300 ease-out sm:scale-100`
                   : ` translate-y-4 opacity-0 duration-200 ease-in sm:translate-y-0 sm:scale-95`)
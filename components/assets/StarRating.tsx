@@ -0,0 +1,71 @@
+import { useState } from 'react';
+import { StarIcon } from '@heroicons/react/solid';
+
+// Types
+type StarRatingProps = {
+  rating: number | null;
+  size?: 'sm' | 'lg';
+  theme?: 'light' | 'dark';
+  onChange?: (rating: number) => void;
+};
+
+// Component
+const StarRating = ({ rating, size = 'sm', theme = 'light', onChange }: StarRatingProps) => {
+  // Local state
+  const [hoverRating, setHoverRating] = useState<number | undefined>(undefined);
+
+  // Derived state
+  const displayRating = hoverRating ?? rating ?? 0;
+  const starClassName = size === 'lg' ? `h-8 w-8` : `h-4 w-4`;
+
+  // Render
+  return (
+    <div
+      className="flex items-center"
+      role={onChange ? 'radiogroup' : 'img'}
+      aria-label={onChange ? 'Your rating' : rating ? `Rated ${rating} out of 5` : 'Not rated'}
+      onMouseLeave={() => setHoverRating(undefined)}
+    >
+      {[1, 2, 3, 4, 5].map((star) => {
+        const fill = displayRating >= star ? `100%` : displayRating >= star - 0.5 ? `50%` : `0%`;
+
+        return (
+          <span key={star} className={`relative flex-none ${starClassName}`}>
+            <StarIcon
+              className={
+                `absolute inset-0 ${starClassName}` +
+                (theme === 'dark' ? ` text-white text-opacity-30` : ` text-gray-200`)
+              }
+              aria-hidden="true"
+            />
+            <span className="absolute inset-y-0 left-0 overflow-hidden" style={{ width: fill }}>
+              <StarIcon className={`${starClassName} text-yellow-400`} aria-hidden="true" />
+            </span>
+
+            {onChange
+              ? [star - 0.5, star].map((value, index) => (
+                  <button
+                    key={value}
+                    type="button"
+                    className={
+                      `absolute inset-y-0 w-1/2 focus:outline-none focus:ring-2 focus:ring-indigo-500` +
+                      (index === 0 ? ` left-0` : ` right-0`)
+                    }
+                    role="radio"
+                    aria-checked={rating === value}
+                    aria-label={`${value} ${value === 1 ? 'star' : 'stars'}`}
+                    onMouseEnter={() => setHoverRating(value)}
+                    onFocus={() => setHoverRating(value)}
+                    onBlur={() => setHoverRating(undefined)}
+                    onClick={() => onChange(value)}
+                  />
+                ))
+              : null}
+          </span>
+        );
+      })}
+    </div>
+  );
+};
+
+export default StarRating;
@@ -0,0 +1,156 @@
+import { useEffect, useState } from 'react';
+import Image from 'next/image';
+import { useRouter } from 'next/router';
+import type { DiscoverMovieResponse, DiscoverTvResponse } from 'moviedb-promise/dist/request-types';
+
+import Alert from '../assets/Alert';
+import ListItem from '../lists/ListItem';
+import Pagination from '../search/Pagination';
+import TabButton from '../search/TabButton';
+
+import { formatSearchMovie, formatSearchTvShow } from '../../lib/format';
+import { imageUrl } from '../../lib/images';
+import { BrowseMedia, BrowseQuery, maxPage } from '../../lib/browse';
+
+// Types
+type BrowseProps = {
+  label: string;
+  title: string;
+  logo?: string | null;
+  description?: string;
+  media: BrowseMedia[];
+  query: BrowseQuery;
+  results: DiscoverMovieResponse | DiscoverTvResponse | null;
+};
+
+// Constants
+const mediaLabels: Record<BrowseMedia, string> = {
+  movie: 'Movies',
+  tv: 'TV Shows',
+};
+
+// Component
+const Browse = ({ label, title, logo, description, media, query, results }: BrowseProps) => {
+  // Hooks
+  const router = useRouter();
+
+  // Local state
+  const [loading, setLoading] = useState(false);
+
+  // Derived state
+  const formattedResults = results
+    ? query.media === 'movie'
+      ? formatSearchMovie(results as DiscoverMovieResponse)
+      : formatSearchTvShow(results as DiscoverTvResponse)
+    : [];
+
+  const totalPages = Math.min(results?.total_pages ?? 0, maxPage);
+
+  // Effects
+  useEffect(() => {
+    const handleStart = () => setLoading(true);
+    const handleComplete = () => setLoading(false);
+
+    router.events.on('routeChangeStart', handleStart);
+    router.events.on('routeChangeComplete', handleComplete);
+    router.events.on('routeChangeError', handleComplete);
+
+    return () => {
+      router.events.off('routeChangeStart', handleStart);
+      router.events.off('routeChangeComplete', handleComplete);
+      router.events.off('routeChangeError', handleComplete);
+    };
+  }, [router.events]);
+
+  // Handlers
+  const updateQuery = (newQuery: Partial<BrowseQuery>) => {
+    const { id, media, page } = { ...query, ...newQuery };
+
+    // Not shallow, so the results are rendered on the server
+    router.push({
+      pathname: router.pathname,
+      query: {
+        id: id.toString(),
+        ...(media !== 'movie' ? { media } : {}),
+        ...(page > 1 ? { page: page.toString() } : {}),
+      },
+    });
+  };
+
+  // Render
+  return (
+    <div className="mx-auto mt-10 max-w-7xl px-4 sm:px-6 lg:px-8">
+      <div className="flex items-center">
+        {logo ? (
+          <div className="relative mr-6 h-12 w-24 flex-none">
+            <Image
+              src={imageUrl(logo, 'w92')}
+              alt=""
+              layout="fill"
+              objectFit="contain"
+              objectPosition="left"
+            />
+          </div>
+        ) : null}
+
+        <div>
+          <p className="text-sm font-medium text-gray-500">{label}</p>
+          <h2 className="text-3xl font-extrabold text-gray-900">{title}</h2>
+        </div>
+      </div>
+
+      {description ? <p className="mt-4 max-w-3xl text-sm text-gray-500">{description}</p> : null}
+
+      {media.length > 1 ? (
+        <div className="mt-5 border-b border-gray-200">
+          <nav className="-mb-px flex space-x-8" aria-label="Media type">
+            {media.map((type) => (
+              <TabButton
+                key={type}
+                current={query.media === type}
+                onClick={() => updateQuery({ media: type, page: 1 })}
+              >
+                {mediaLabels[type]}
+              </TabButton>
+            ))}
+          </nav>
+        </div>
+      ) : (
+        <div className="mt-5 border-b border-gray-200" />
+      )}
+
+      {!results ? (
+        <div className="mt-8">
+          <Alert type="error" message="Unable to load titles, please try again" />
+        </div>
+      ) : formattedResults.length > 0 ? (
+        <ul
+          className={
+            `mt-8 grid grid-cols-2 gap-x-4 gap-y-8 sm:grid-cols-4 sm:gap-x-6 lg:grid-cols-5 xl:gap-x-8` +
+            (loading ? ` opacity-50` : ``)
+          }
+        >
+          {formattedResults.map((result) => (
+            <li key={result.tmdbId} className="relative">
+              <ListItem item={result} showType={false} action="add" />
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="mt-8 text-sm text-gray-500">
+          No {mediaLabels[query.media].toLowerCase()} found.
+        </p>
+      )}
+
+      {totalPages > 1 ? (
+        <Pagination
+          currentPage={query.page}
+          totalPages={totalPages}
+          onChange={(newPage) => updateQuery({ page: newPage })}
+        />
+      ) : null}
+    </div>
+  );
+};
+
+export default Browse;
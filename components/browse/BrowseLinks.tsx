@@ -0,0 +1,29 @@
+import { Fragment } from 'react';
+import Link from 'next/link';
+
+// Types
+type BrowseLinksProps = {
+  items: { id?: number; name?: string }[];
+  href: (id: number) => string;
+};
+
+// Component
+const BrowseLinks = ({ items, href }: BrowseLinksProps) => {
+  // Render
+  return (
+    <>
+      {items
+        .filter((item) => item.id && item.name)
+        .map((item, index) => (
+          <Fragment key={item.id}>
+            {index > 0 ? `, ` : null}
+            <Link href={href(item.id ?? 0)}>
+              <a className="hover:text-white hover:underline">{item.name}</a>
+            </Link>
+          </Fragment>
+        ))}
+    </>
+  );
+};
+
+export default BrowseLinks;
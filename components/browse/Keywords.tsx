@@ -0,0 +1,37 @@
+import Link from 'next/link';
+import type { Keyword } from 'moviedb-promise/dist/request-types';
+
+// Types
+type KeywordsProps = {
+  keywords: Keyword[];
+};
+
+// Component
+const Keywords = ({ keywords }: KeywordsProps) => {
+  // Render
+  if (keywords.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mx-auto mt-12 max-w-7xl px-4 sm:px-6 lg:px-8">
+      <div className="border-b border-gray-200 pb-5">
+        <h3 className="text-lg font-medium leading-6 text-gray-900">Keywords</h3>
+      </div>
+
+      <ul className="mt-6 flex flex-wrap gap-2">
+        {keywords.map((keyword) => (
+          <li key={keyword.id}>
+            <Link href={`/keyword/${keyword.id}`}>
+              <a className="inline-flex items-center rounded-full bg-gray-100 px-3 py-0.5 text-sm font-medium text-gray-800 hover:bg-gray-200">
+                {keyword.name}
+              </a>
+            </Link>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default Keywords;
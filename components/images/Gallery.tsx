@@ -0,0 +1,175 @@
+import { useState } from 'react';
+import Image from 'next/image';
+
+import ImageViewer from './ImageViewer';
+import TabButton from '../search/TabButton';
+
+import { GalleryImage, GalleryImageType, imageUrl, thumbnailSize } from '../../lib/images';
+
+// Types
+type GalleryProps = {
+  images: GalleryImage[];
+  alt: string;
+};
+
+// Constants
+const initialCount = 12;
+
+const typeLabels: Record<GalleryImageType, string> = {
+  poster: 'Posters',
+  backdrop: 'Backdrops',
+  profile: 'Photos',
+};
+
+const typeOrder: GalleryImageType[] = ['poster', 'backdrop', 'profile'];
+
+// TMDB marks images without any text with no language
+const noLanguage = 'none';
+
+// Helpers
+const languageName = (code: string) => {
+  try {
+    return new Intl.DisplayNames(['en'], { type: 'language' }).of(code) ?? code.toUpperCase();
+  } catch (error) {
+    return code.toUpperCase();
+  }
+};
+
+// Component
+const Gallery = ({ images, alt }: GalleryProps) => {
+  // Derived state
+  const types = typeOrder.filter((type) => images.some((image) => image.type === type));
+
+  // Local state
+  const [type, setType] = useState<GalleryImageType | undefined>(types[0]);
+  const [language, setLanguage] = useState('');
+  const [showAll, setShowAll] = useState(false);
+  const [viewerIndex, setViewerIndex] = useState<number | undefined>(undefined);
+
+  // Derived state
+  const typeImages = images.filter((image) => image.type === type);
+
+  const languages = typeImages
+    .map((image) => image.language ?? noLanguage)
+    .filter((code, index, codes) => codes.indexOf(code) === index)
+    .sort((a, b) => (a === noLanguage ? -1 : b === noLanguage ? 1 : a.localeCompare(b)));
+
+  const filteredImages = language
+    ? typeImages.filter((image) => (image.language ?? noLanguage) === language)
+    : typeImages;
+
+  const visibleImages = showAll ? filteredImages : filteredImages.slice(0, initialCount);
+
+  // Handlers
+  const changeType = (newType: GalleryImageType) => {
+    setType(newType);
+    setLanguage('');
+    setShowAll(false);
+  };
+
+  // Render
+  if (types.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mx-auto mt-12 max-w-7xl px-4 sm:px-6 lg:px-8">
+      <div className="border-b border-gray-200 sm:flex sm:items-end sm:justify-between">
+        <div>
+          <h3 className="text-lg font-medium leading-6 text-gray-900">Images</h3>
+
+          <nav className="-mb-px mt-2 flex space-x-8" aria-label="Image types">
+            {types.map((imageType) => (
+              <TabButton
+                key={imageType}
+                current={imageType === type}
+                onClick={() => changeType(imageType)}
+              >
+                {typeLabels[imageType]}
+              </TabButton>
+            ))}
+          </nav>
+        </div>
+
+        {languages.length > 1 ? (
+          <div className="pb-3 sm:ml-4">
+            <label htmlFor="gallery-language" className="sr-only">
+              Language
+            </label>
+            <select
+              id="gallery-language"
+              name="gallery-language"
+              className="block w-full rounded-md border-gray-300 py-2 pl-3 pr-10 text-base focus:border-indigo-500 focus:outline-none focus:ring-indigo-500 sm:text-sm"
+              value={language}
+              onChange={(event) => {
+                setLanguage(event.target.value);
+                setShowAll(false);
+              }}
+            >
+              <option value="">All languages</option>
+              {languages.map((code) => (
+                <option key={code} value={code}>
+                  {code === noLanguage ? 'No text' : languageName(code)}
+                </option>
+              ))}
+            </select>
+          </div>
+        ) : null}
+      </div>
+
+      <ul
+        className={
+          `mt-8 grid gap-x-4 gap-y-4` +
+          (type === 'backdrop'
+            ? ` grid-cols-1 sm:grid-cols-2 lg:grid-cols-4`
+            : ` grid-cols-3 sm:grid-cols-4 lg:grid-cols-8`)
+        }
+      >
+        {visibleImages.map((image, index) => (
+          <li key={image.path}>
+            <button
+              type="button"
+              className={
+                `group block w-full overflow-hidden rounded-lg bg-gray-100 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 focus:ring-offset-gray-100` +
+                (image.type === 'backdrop' ? ` aspect-w-16 aspect-h-9` : ` aspect-w-2 aspect-h-3`)
+              }
+              onClick={() => setViewerIndex(index)}
+            >
+              <Image
+                src={imageUrl(image.path, thumbnailSize(image.type))}
+                alt=""
+                layout="fill"
+                className="pointer-events-none object-cover group-hover:opacity-75"
+              />
+              <span className="sr-only">
+                View {typeLabels[image.type].toLowerCase()} {index + 1} of {filteredImages.length}
+              </span>
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      {filteredImages.length > initialCount ? (
+        <div className="mt-6 text-center">
+          <button
+            type="button"
+            className="text-sm font-medium text-indigo-600 hover:text-indigo-500"
+            onClick={() => setShowAll(!showAll)}
+          >
+            {showAll ? `Show fewer` : `Show all ${filteredImages.length} images`}
+          </button>
+        </div>
+      ) : null}
+
+      <ImageViewer
+        images={filteredImages}
+        index={viewerIndex}
+        alt={alt}
+        onChange={setViewerIndex}
+        onClose={() => setViewerIndex(undefined)}
+      />
+    </div>
+  );
+};
+
+export default Gallery;
@@ -0,0 +1,205 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import Image from 'next/image';
+import { ChevronLeftIcon, ChevronRightIcon, XIcon } from '@heroicons/react/outline';
+
+import { GalleryImage, imageUrl } from '../../lib/images';
+
+// Types
+type ImageViewerProps = {
+  images: GalleryImage[];
+  index?: number;
+  alt: string;
+  onChange: (index: number) => void;
+  onClose: () => void;
+};
+
+// Constants
+const swipeThreshold = 50;
+
+// Component
+const ImageViewer = ({ images, index, alt, onChange, onClose }: ImageViewerProps) => {
+  // Local state
+  const [mounted, setMounted] = useState(false);
+
+  // Refs
+  const closeRef = useRef<HTMLButtonElement>(null);
+  const touchStartRef = useRef<number | undefined>(undefined);
+
+  // Derived state
+  const image = index !== undefined ? images[index] : undefined;
+  const visible = !!image;
+
+  // Callbacks
+  const previous = useCallback(() => {
+    if (index !== undefined) {
+      onChange(index === 0 ? images.length - 1 : index - 1);
+    }
+  }, [index, images.length, onChange]);
+
+  const next = useCallback(() => {
+    if (index !== undefined) {
+      onChange(index === images.length - 1 ? 0 : index + 1);
+    }
+  }, [index, images.length, onChange]);
+
+  // Effects
+  useEffect(() => {
+    // We must check if the component is mounted
+    // before creating the portal
+    setMounted(true);
+
+    return () => {
+      setMounted(false);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!visible) {
+      return;
+    }
+
+    // Lock the page behind the viewer and hand focus back when it closes
+    const scrollY = window.scrollY;
+    const previousFocus = document.activeElement as HTMLElement | null;
+
+    document.body.classList.add('fixed', 'w-full');
+    document.body.style.top = `-${scrollY}px`;
+
+    closeRef.current?.focus();
+
+    return () => {
+      document.body.classList.remove('fixed', 'w-full');
+      document.body.style.top = '';
+
+      window.scrollTo(0, scrollY);
+
+      previousFocus?.focus();
+    };
+  }, [visible]);
+
+  useEffect(() => {
+    if (!visible) {
+      return;
+    }
+
+    const keyListener = (event: KeyboardEvent) => {
+      switch (event.key) {
+        case 'ArrowLeft':
+          event.preventDefault();
+          previous();
+          break;
+        case 'ArrowRight':
+          event.preventDefault();
+          next();
+          break;
+        case 'Home':
+          event.preventDefault();
+          onChange(0);
+          break;
+        case 'End':
+          event.preventDefault();
+          onChange(images.length - 1);
+          break;
+        case 'Escape':
+          onClose();
+          break;
+      }
+    };
+
+    document.addEventListener('keydown', keyListener);
+
+    return () => {
+      document.removeEventListener('keydown', keyListener);
+    };
+  }, [visible, images.length, previous, next, onChange, onClose]);
+
+  // Handlers
+  const handleTouchStart = (event: React.TouchEvent) => {
+    touchStartRef.current = event.touches[0].clientX;
+  };
+
+  const handleTouchEnd = (event: React.TouchEvent) => {
+    if (touchStartRef.current === undefined) {
+      return;
+    }
+
+    const distance = event.changedTouches[0].clientX - touchStartRef.current;
+
+    touchStartRef.current = undefined;
+
+    if (distance > swipeThreshold) {
+      previous();
+    } else if (distance < -swipeThreshold) {
+      next();
+    }
+  };
+
+  // Render
+  return mounted && image && index !== undefined
+    ? createPortal(
+        <div
+          className="fixed inset-0 z-20 flex flex-col bg-black bg-opacity-95"
+          role="dialog"
+          aria-modal="true"
+          aria-label={`${alt} image viewer`}
+          onTouchStart={handleTouchStart}
+          onTouchEnd={handleTouchEnd}
+        >
+          <div className="flex flex-none items-center justify-between px-4 py-3 text-sm text-gray-300">
+            <p aria-live="polite">
+              {index + 1} of {images.length}
+              <span className="ml-3 text-gray-500">
+                {image.width} × {image.height}
+              </span>
+            </p>
+
+            <button
+              type="button"
+              ref={closeRef}
+              className="rounded-md p-1 text-gray-300 hover:text-white focus:outline-none focus:ring-2 focus:ring-white"
+              onClick={onClose}
+            >
+              <span className="sr-only">Close</span>
+              <XIcon className="h-6 w-6" aria-hidden="true" />
+            </button>
+          </div>
+
+          <div className="relative flex-1">
+            <Image
+              key={image.path}
+              src={imageUrl(image.path, 'original')}
+              alt={`${alt} ${image.type} ${index + 1}`}
+              layout="fill"
+              objectFit="contain"
+            />
+
+            {images.length > 1 ? (
+              <>
+                <button
+                  type="button"
+                  className="absolute inset-y-0 left-0 hidden items-center px-4 text-gray-300 hover:text-white focus:outline-none focus:ring-2 focus:ring-inset focus:ring-white sm:flex"
+                  onClick={previous}
+                >
+                  <span className="sr-only">Previous image</span>
+                  <ChevronLeftIcon className="h-10 w-10" aria-hidden="true" />
+                </button>
+
+                <button
+                  type="button"
+                  className="absolute inset-y-0 right-0 hidden items-center px-4 text-gray-300 hover:text-white focus:outline-none focus:ring-2 focus:ring-inset focus:ring-white sm:flex"
+                  onClick={next}
+                >
+                  <span className="sr-only">Next image</span>
+                  <ChevronRightIcon className="h-10 w-10" aria-hidden="true" />
+                </button>
+              </>
+            ) : null}
+          </div>
+        </div>,
+        document.querySelector('#portal') as HTMLElement
+      )
+    : null;
+};
+
+export default ImageViewer;
@@ -2,13 +2,14 @@ import { useEffect, useRef, useState } from 'react';
 import Link from 'next/link';
 import Image from 'next/image';
 
-import { SearchIcon } from '@heroicons/react/solid';
 import { MenuIcon, XIcon } from '@heroicons/react/outline';
 import md5 from 'md5';
 
 import NavLink from '../assets/links/NavLink';
 import MobileLink from '../assets/links/MobileLink';
+import SearchAutocomplete from '../search/SearchAutocomplete';
 import Footer from './Footer';
+import VerifyBanner from './VerifyBanner';
 
 import { useUserState, useUserDispatch } from '../../hooks/useUser';
 
@@ -95,6 +96,7 @@ const DetailsLayout: React.FC = ({ children }) => {
                 </Link>
               </div>
               <div className="hidden sm:-my-px sm:ml-6 sm:flex sm:items-center sm:space-x-8">
+                <NavLink href="/discover">Discover</NavLink>
                 {userState.auth ? (
                   <NavLink href="/lists">My lists</NavLink>
                 ) : (
@@ -105,27 +107,9 @@ const DetailsLayout: React.FC = ({ children }) => {
                 )}
               </div>
             </div>
-            <form
-              method="get"
-              action="/"
-              className="ml-2 w-full max-w-xs self-center sm:ml-6 lg:max-w-lg"
-            >
-              <label htmlFor="search" className="sr-only">
-                Search
-              </label>
-              <div className="relative rounded-md text-gray-400 focus-within:text-gray-600">
-                <div className="pointer-events-none absolute inset-y-0 left-0 flex items-center pl-3">
-                  <SearchIcon className="h-5 w-5" />
-                </div>
-                <input
-                  id="search"
-                  className="block w-full rounded-md border-gray-300 pl-10 focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
-                  placeholder="Search"
-                  type="search"
-                  name="search"
-                />
-              </div>
-            </form>
+            <div className="ml-2 w-full max-w-xs self-center sm:ml-6 lg:max-w-lg">
+              <SearchAutocomplete />
+            </div>
 
             <div className="hidden sm:ml-6 sm:flex sm:items-center">
               <div className="relative ml-3">
@@ -215,6 +199,7 @@ const DetailsLayout: React.FC = ({ children }) => {
         {showMobileNav ? (
           <div className="sm:hidden" id="mobile-menu">
             <div className="space-y-1 pt-2 pb-3">
+              <MobileLink href="/discover">Discover</MobileLink>
               {userState.auth ? (
                 <MobileLink href="/lists">My lists</MobileLink>
               ) : (
@@ -266,6 +251,8 @@ const DetailsLayout: React.FC = ({ children }) => {
         ) : null}
       </nav>
 
+      <VerifyBanner />
+
       {children}
 
       <Footer />
@@ -0,0 +1,67 @@
+import Link from 'next/link';
+import Image from 'next/image';
+import { ArrowNarrowLeftIcon } from '@heroicons/react/solid';
+
+import { imageUrl } from '../../lib/images';
+
+// Types
+type DetailsBannerProps = {
+  theme: 'movie' | 'tv' | 'person';
+  title: string;
+  subTitle?: string;
+  poster?: string | null;
+  backHref: string;
+  backLabel: string;
+};
+
+// Component
+const DetailsBanner = ({
+  theme,
+  title,
+  subTitle,
+  poster,
+  backHref,
+  backLabel,
+}: DetailsBannerProps) => {
+  // Render
+  return (
+    <div
+      className={
+        theme === 'movie' ? `bg-theme-movie` : theme === 'tv' ? `bg-theme-tv` : `bg-theme-person`
+      }
+    >
+      <div className="mx-auto flex max-w-7xl items-center px-4 py-6 sm:px-6 lg:px-8">
+        <div className="w-16 flex-none sm:w-20">
+          <div className="aspect-w-2 aspect-h-3 overflow-hidden rounded-md">
+            {poster ? (
+              <Image
+                src={imageUrl(poster, 'w220_and_h330_face')}
+                alt={title}
+                layout="fill"
+                className="object-cover"
+              />
+            ) : (
+              <div className="bg-gray-100" />
+            )}
+          </div>
+        </div>
+
+        <div className="ml-6">
+          <h2 className="text-xl font-bold leading-7 text-white sm:text-2xl">
+            {title}{' '}
+            {subTitle ? <span className="font-extralight text-gray-200">{subTitle}</span> : null}
+          </h2>
+
+          <Link href={backHref}>
+            <a className="mt-2 inline-flex items-center text-sm font-medium text-gray-200 hover:text-white">
+              <ArrowNarrowLeftIcon className="mr-1.5 h-5 w-5 flex-shrink-0 text-gray-300" />
+              {backLabel}
+            </a>
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DetailsBanner;
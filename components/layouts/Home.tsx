@@ -1,11 +1,14 @@
 import Link from 'next/link';
 
 import Footer from './Footer';
+import VerifyBanner from './VerifyBanner';
 
 const HomeLayout: React.FC = ({ children }) => {
   // Render
   return (
     <>
+      <VerifyBanner />
+
       <div className="mx-auto mt-16 max-w-7xl px-4 sm:px-6 lg:px-8">
         <div className="text-center">
           <h2 className="text-base font-semibold uppercase tracking-wide text-indigo-600">
@@ -0,0 +1,36 @@
+import Link from 'next/link';
+import { MailIcon } from '@heroicons/react/outline';
+
+import { useUserState } from '../../hooks/useUser';
+
+// Component
+const VerifyBanner = () => {
+  // Hooks
+  const userState = useUserState();
+
+  // Render
+  if (!userState.auth || userState.user.emailVerified) {
+    return null;
+  }
+
+  return (
+    <div className="bg-yellow-50">
+      <div className="mx-auto flex max-w-7xl items-center py-3 px-4 sm:px-6 lg:px-8">
+        <MailIcon className="h-5 w-5 flex-none text-yellow-400" aria-hidden="true" />
+
+        <p className="ml-3 flex-1 text-sm font-medium text-yellow-700">
+          Please verify your email address, we sent a link to{' '}
+          <span className="break-all font-semibold">{userState.user.email}</span>
+        </p>
+
+        <Link href="/my-account">
+          <a className="ml-3 flex-none text-sm font-medium text-yellow-700 underline hover:text-yellow-600">
+            Resend
+          </a>
+        </Link>
+      </div>
+    </div>
+  );
+};
+
+export default VerifyBanner;
@@ -0,0 +1,236 @@
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+
+import Modal from '../assets/Modal';
+import Alert from '../assets/Alert';
+
+import { useUserState } from '../../hooks/useUser';
+import { useListState, useListDispatch } from '../../hooks/useList';
+
+import type { ApiError } from '../../lib/api';
+import { addList, addListItem, getAllLists } from '../../lib/api/lists';
+import type { List } from '../../lib/api/types';
+import type { ListItem } from '../../lib/format';
+
+// Types
+type AddCollectionProps = {
+  name: string;
+  items: ListItem[];
+  visible: boolean;
+  onClose: () => void;
+  onComplete: (added: number, skipped: number, failed: number) => void;
+};
+
+// Constants
+const newList = '__new';
+
+// Helpers
+const isInList = (list: List, item: ListItem) =>
+  (list.items ?? []).some(
+    (listItem) => listItem.tmdbId === item.tmdbId && listItem.mediaType === item.type.toUpperCase()
+  );
+
+// Component
+const AddCollection = ({ name, items, visible, onClose, onComplete }: AddCollectionProps) => {
+  // Hooks
+  const userState = useUserState();
+  const listState = useListState();
+  const listDispatch = useListDispatch();
+
+  // Local state
+  const [listSlug, setListSlug] = useState(newList);
+  const [listName, setListName] = useState(name);
+  const [progress, setProgress] = useState<number | undefined>(undefined);
+  const [error, setError] = useState<string | undefined>(undefined);
+
+  // Effects
+  useEffect(() => {
+    if (visible && userState.auth && !listState.lists) {
+      getAllLists()
+        .then((lists) => {
+          listDispatch({ type: 'SET_LISTS', lists });
+        })
+        .catch(() => {
+          setError('Unable to load your lists, please try again later');
+        });
+    }
+  }, [visible, userState, listState.lists, listDispatch]);
+
+  useEffect(() => {
+    if (visible) {
+      setProgress(undefined);
+      setError(undefined);
+    }
+  }, [visible]);
+
+  // Handlers
+  const addItems = async (list: List) => {
+    let added = 0;
+    let skipped = 0;
+    let failed = 0;
+
+    // One at a time, so the list keeps release order
+    for (const item of items) {
+      if (isInList(list, item)) {
+        skipped++;
+      } else {
+        try {
+          const listItem = await addListItem({
+            listSlug: list.slug,
+            mediaType: item.type.toUpperCase(),
+            tmdbId: item.tmdbId,
+            title: item.title,
+            subtitle: item.subTitle,
+            posterUrl: item.poster,
+            releaseDate: item.releaseDate,
+          });
+
+          listDispatch({ type: 'ADD_LIST_ITEM', slug: list.slug, item: listItem });
+          added++;
+        } catch (error) {
+          const { status } = error as ApiError;
+
+          // Already in the list, just not in our copy of it
+          if (status === 409 || status === 422) {
+            skipped++;
+          } else {
+            failed++;
+          }
+        }
+      }
+
+      setProgress(added + skipped + failed);
+    }
+
+    return { added, skipped, failed };
+  };
+
+  const handleSubmit = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+
+    setError(undefined);
+    setProgress(0);
+
+    const existingList = listState.lists?.find((list) => list.slug === listSlug);
+
+    const target = existingList
+      ? Promise.resolve(existingList)
+      : addList({ name: listName }).then((list) => {
+          listDispatch({ type: 'ADD_LIST', list });
+
+          return list;
+        });
+
+    target
+      .then(addItems)
+      .then(({ added, skipped, failed }) => {
+        onComplete(added, skipped, failed);
+      })
+      .catch((error: ApiError) => {
+        setProgress(undefined);
+        setError(
+          error.status === 422 ? 'A list with this name already exists' : 'Unable to add to list'
+        );
+      });
+  };
+
+  // Render
+  return (
+    <Modal title="add-collection-modal-title" visible={visible} canClose={true} onClose={onClose}>
+      <h3 className="text-lg font-medium leading-6 text-gray-900" id="add-collection-modal-title">
+        Add whole collection to list
+      </h3>
+      <p className="mt-1 text-sm text-gray-500">
+        Adds all {items.length} films in release order. Anything already in the list is skipped.
+      </p>
+
+      {error ? (
+        <div className="mt-4">
+          <Alert type="error" message={error} onClose={() => setError(undefined)} />
+        </div>
+      ) : null}
+
+      {!userState.auth ? (
+        <p className="mt-6 text-sm text-gray-700">
+          <Link href="/sign-in">
+            <a className="font-medium text-indigo-600 hover:text-indigo-500">Sign in</a>
+          </Link>{' '}
+          to add films to your lists.
+        </p>
+      ) : !listState.lists ? (
+        error ? null : (
+          <div className="mt-6 h-9 w-full animate-pulse rounded-md bg-gray-100" />
+        )
+      ) : (
+        <form className="mt-6 space-y-4" onSubmit={handleSubmit}>
+          <div>
+            <label htmlFor="collection-list" className="block text-sm font-medium text-gray-700">
+              List
+            </label>
+            <select
+              id="collection-list"
+              name="collection-list"
+              className="mt-1 block w-full rounded-md border-gray-300 py-2 pl-3 pr-10 text-base focus:border-indigo-500 focus:outline-none focus:ring-indigo-500 sm:text-sm"
+              value={listSlug}
+              disabled={progress !== undefined}
+              onChange={(event) => setListSlug(event.target.value)}
+            >
+              <option value={newList}>New list</option>
+              {listState.lists.map((list) => (
+                <option key={list.slug} value={list.slug}>
+                  {list.name}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {listSlug === newList ? (
+            <div>
+              <label
+                htmlFor="collection-list-name"
+                className="block text-sm font-medium text-gray-700"
+              >
+                List name
+              </label>
+              <input
+                type="text"
+                id="collection-list-name"
+                name="collection-list-name"
+                required
+                className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 text-gray-900 placeholder-gray-500 focus:border-indigo-500 focus:outline-none focus:ring-indigo-500 sm:text-sm"
+                value={listName}
+                disabled={progress !== undefined}
+                onChange={(event) => setListName(event.target.value)}
+              />
+            </div>
+          ) : null}
+
+          <div className="sm:flex sm:flex-row-reverse">
+            <button
+              type="submit"
+              className={
+                `inline-flex w-full justify-center rounded-md border border-transparent bg-indigo-600 px-4 py-2 text-sm font-medium text-white shadow-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 sm:ml-3 sm:w-auto` +
+                (progress !== undefined ? ` opacity-75` : ` hover:bg-indigo-700`)
+              }
+              disabled={progress !== undefined}
+            >
+              {progress !== undefined
+                ? `Adding ${Math.min(progress + 1, items.length)} of ${items.length}...`
+                : `Add ${items.length} films`}
+            </button>
+            <button
+              type="button"
+              className="mt-3 inline-flex w-full justify-center rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 shadow-sm hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 sm:mt-0 sm:w-auto"
+              disabled={progress !== undefined}
+              onClick={onClose}
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+    </Modal>
+  );
+};
+
+export default AddCollection;
@@ -0,0 +1,166 @@
+import { useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+
+import ListItem from './ListItem';
+
+import { useUserState } from '../../hooks/useUser';
+import { useListState, useListDispatch } from '../../hooks/useList';
+
+import type { ApiError, ApiResponse } from '../../lib/api';
+import { getAllLists } from '../../lib/api/lists';
+import {
+  getSavedItems,
+  getSuggestions,
+  pickSeeds,
+  savedKey,
+  Suggestion,
+} from '../../lib/recommendations';
+
+// Constants
+const maxSuggestions = 10;
+
+// Helpers
+const formatBecause = (titles: string[]) => {
+  if (titles.length === 1) {
+    return `Because you saved ${titles[0]}`;
+  }
+
+  if (titles.length === 2) {
+    return `Because you saved ${titles[0]} and ${titles[1]}`;
+  }
+
+  return `Because you saved ${titles[0]}, ${titles[1]} and ${titles.length - 2} more`;
+};
+
+// Component
+const ForYou = () => {
+  // Hooks
+  const userState = useUserState();
+  const listState = useListState();
+  const listDispatch = useListDispatch();
+
+  // Local state
+  const [suggestions, setSuggestions] = useState<ApiResponse<Suggestion[]>>({
+    status: 'pending',
+  });
+  const [listsError, setListsError] = useState(false);
+
+  // Derived state
+  const lists = listState.lists;
+  const hasLists = !!lists;
+  const seeds = lists ? pickSeeds(lists) : [];
+  const seedKey = seeds
+    .map((seed) => savedKey({ type: seed.mediaType, tmdbId: seed.tmdbId }))
+    .join();
+
+  // Saved titles drop out straight away, without fetching everything again
+  const savedKeys = lists
+    ? getSavedItems(lists).map((item) => savedKey({ type: item.mediaType, tmdbId: item.tmdbId }))
+    : [];
+
+  const visibleSuggestions =
+    suggestions.status === 'resolved'
+      ? suggestions.data
+          .filter((suggestion) => !savedKeys.includes(savedKey(suggestion.item)))
+          .slice(0, maxSuggestions)
+      : [];
+
+  // Refs
+  const seedsRef = useRef(seeds);
+  seedsRef.current = seeds;
+
+  // Effects
+  useEffect(() => {
+    if (userState.auth && !lists && !listsError) {
+      getAllLists()
+        .then((lists) => {
+          listDispatch({ type: 'SET_LISTS', lists });
+        })
+        .catch(() => {
+          // Without lists there is nothing to base suggestions on
+          setListsError(true);
+        });
+    }
+  }, [userState, lists, listsError, listDispatch]);
+
+  useEffect(() => {
+    // Only refetch when the titles we base suggestions on change
+    if (!hasLists) {
+      return;
+    }
+
+    let isCancelled = false;
+
+    setSuggestions({ status: 'pending' });
+
+    getSuggestions(seedsRef.current)
+      .then((data) => {
+        if (!isCancelled) {
+          setSuggestions({ status: 'resolved', data });
+        }
+      })
+      .catch((error: ApiError) => {
+        if (!isCancelled) {
+          setSuggestions({ status: 'rejected', error });
+        }
+      });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [seedKey, hasLists]);
+
+  // Render
+  if (!userState.auth) {
+    return null;
+  }
+
+  return (
+    <div className="mt-16">
+      <div className="border-b border-gray-200 pb-5">
+        <h3 className="text-lg font-medium leading-6 text-gray-900">For you</h3>
+        <p className="mt-2 text-sm text-gray-500">Suggestions based on what you have saved.</p>
+      </div>
+
+      {lists && seeds.length === 0 ? (
+        <p className="mt-8 text-sm text-gray-500">
+          Add some movies or TV shows to{' '}
+          <Link href="/lists">
+            <a className="font-medium text-indigo-600 hover:text-indigo-500">your lists</a>
+          </Link>{' '}
+          and we&apos;ll suggest more like them here.
+        </p>
+      ) : suggestions.status === 'rejected' || (listsError && !lists) ? (
+        <p className="mt-8 text-sm text-gray-500">Unable to load suggestions right now.</p>
+      ) : suggestions.status === 'resolved' && lists && visibleSuggestions.length === 0 ? (
+        <p className="mt-8 text-sm text-gray-500">
+          No new suggestions right now, check back after saving a few more titles.
+        </p>
+      ) : (
+        <ul className="mt-8 grid grid-cols-2 gap-x-4 gap-y-8 sm:grid-cols-4 sm:gap-x-6 lg:grid-cols-5 lg:gap-x-8 xl:gap-x-12">
+          {suggestions.status === 'pending' || !lists
+            ? Array(maxSuggestions)
+                .fill(null)
+                .map((_, index) => (
+                  <li key={index} className="animate-pulse">
+                    <div className="group aspect-w-2 aspect-h-3 block w-full overflow-hidden rounded-lg bg-gray-100" />
+                    <div className="mt-2 h-4 w-3/4 rounded bg-gray-100" />
+                    <div className="mt-1 h-4 w-1/2 rounded bg-gray-100" />
+                  </li>
+                ))
+            : visibleSuggestions.map((suggestion) => (
+                <li key={savedKey(suggestion.item)} className="relative">
+                  <ListItem item={suggestion.item} action="add" />
+
+                  <p className="pointer-events-none block truncate text-xs text-gray-400">
+                    {formatBecause(suggestion.because)}
+                  </p>
+                </li>
+              ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ForYou;
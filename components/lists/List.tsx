@@ -1,36 +1,94 @@
 import { useEffect, useRef, useState } from 'react';
 import { useRouter } from 'next/router';
 import { DotsVerticalIcon, PencilAltIcon } from '@heroicons/react/solid';
-import { PlusCircleIcon, TrashIcon } from '@heroicons/react/outline';
+import {
+  DownloadIcon,
+  EyeOffIcon,
+  GlobeAltIcon,
+  LinkIcon,
+  LockClosedIcon,
+  PlusCircleIcon,
+  SwitchHorizontalIcon,
+  TrashIcon,
+} from '@heroicons/react/outline';
+import parseISO from 'date-fns/parseISO';
+import compareDesc from 'date-fns/compareDesc';
 
+import Alert from '../assets/Alert';
 import ListItem from '../lists/ListItem';
 
 import { useListDispatch } from '../../hooks/useList';
 
-import type { List as ListType } from '../../lib/api/types';
+import type { ApiError } from '../../lib/api';
+import { reorderListItems } from '../../lib/api/lists';
+import type { List as ListType, ListItem as SavedListItem } from '../../lib/api/types';
+import { downloadExport, ExportFormat, formatExport } from '../../lib/export';
 import type { ListItem as ListItemType } from '../../lib/format';
 
 // Types
+type SortMode = 'manual' | 'title' | 'added' | 'release' | 'rating';
+
 type ListProps = {
   list: ListType;
   onEdit: () => void;
   onDelete: () => void;
+  onShare: () => void;
+};
+
+// Helpers
+const sortItems = (items: SavedListItem[], sortMode: SortMode) => {
+  return [...items].sort((a, b) => {
+    switch (sortMode) {
+      case 'title':
+        return a.title.localeCompare(b.title);
+      case 'added':
+        return compareDesc(parseISO(a.createdAt), parseISO(b.createdAt));
+      case 'release':
+        if (!a.releaseDate || !b.releaseDate) {
+          // Undated items go last
+          return a.releaseDate ? -1 : b.releaseDate ? 1 : 0;
+        }
+
+        return compareDesc(parseISO(a.releaseDate), parseISO(b.releaseDate));
+      case 'rating':
+        return (b.rating ?? 0) - (a.rating ?? 0);
+      default:
+        return a.position - b.position;
+    }
+  });
 };
 
 // Component
-const List = ({ list, onEdit, onDelete }: ListProps) => {
+const List = ({ list, onEdit, onDelete, onShare }: ListProps) => {
   // Hooks
   const router = useRouter();
   const listDispatch = useListDispatch();
 
   // Derived state
-  const { slug, name, items } = list;
+  const { slug, name, visibility, items } = list;
 
   // Local state
   const [showMenu, setShowMenu] = useState(false);
 
+  const [sortMode, setSortMode] = useState<SortMode>('manual');
+  const [draftOrder, setDraftOrder] = useState<string[] | undefined>(undefined);
+  const [dragId, setDragId] = useState<string | undefined>(undefined);
+  const [liftedId, setLiftedId] = useState<string | undefined>(undefined);
+  const [announcement, setAnnouncement] = useState('');
+  const [error, setError] = useState<string | undefined>(undefined);
+
   // Refs
   const menuRef = useRef<HTMLDivElement>(null);
+  const handleRefs = useRef<Record<string, HTMLButtonElement | null>>({});
+
+  // Derived state
+  const canReorder = sortMode === 'manual';
+  const sortedItems = sortItems(items ?? [], sortMode);
+  const displayItems = draftOrder
+    ? draftOrder
+        .map((itemId) => sortedItems.find((item) => item.id === itemId))
+        .filter((item): item is SavedListItem => item !== undefined)
+    : sortedItems;
 
   // Effects
   useEffect(() => {
@@ -56,6 +114,13 @@ const List = ({ list, onEdit, onDelete }: ListProps) => {
     listDispatch({ type: 'CLEAR_SELECTED_LIST' });
   }, [listDispatch]);
 
+  useEffect(() => {
+    // Keep focus on the item being moved with the keyboard
+    if (liftedId) {
+      handleRefs.current[liftedId]?.focus();
+    }
+  }, [liftedId, draftOrder]);
+
   // Handlers
   const handleEdit = () => {
     setShowMenu(false);
@@ -69,6 +134,104 @@ const List = ({ list, onEdit, onDelete }: ListProps) => {
     onDelete();
   };
 
+  const handleShare = () => {
+    setShowMenu(false);
+
+    onShare();
+  };
+
+  const handleExport = (exportFormat: ExportFormat) => {
+    setShowMenu(false);
+
+    downloadExport(formatExport(list, exportFormat, slug));
+  };
+
+  const moveItem = (itemId: string, toIndex: number) => {
+    setDraftOrder((order) => {
+      if (!order || toIndex < 0 || toIndex >= order.length) {
+        return order;
+      }
+
+      const newOrder = order.filter((id) => id !== itemId);
+
+      newOrder.splice(toIndex, 0, itemId);
+
+      return newOrder;
+    });
+  };
+
+  const commitOrder = (order: string[]) => {
+    const previousOrder = sortItems(items ?? [], 'manual').map((item) => item.id);
+
+    setDraftOrder(undefined);
+
+    if (order.join() === previousOrder.join()) {
+      return;
+    }
+
+    setError(undefined);
+    listDispatch({ type: 'REORDER_LIST_ITEMS', slug, itemIds: order });
+
+    reorderListItems({ listSlug: slug, itemIds: order }).catch((error: ApiError) => {
+      // Put things back as they were
+      listDispatch({ type: 'REORDER_LIST_ITEMS', slug, itemIds: previousOrder });
+      setError(`Unable to save the new order: ${error.message}`);
+    });
+  };
+
+  const handleReorderKey = (event: React.KeyboardEvent, item: SavedListItem) => {
+    const index = displayItems.findIndex((displayItem) => displayItem.id === item.id);
+
+    switch (event.key) {
+      case ' ':
+      case 'Enter':
+        event.preventDefault();
+
+        if (liftedId === item.id && draftOrder) {
+          commitOrder(draftOrder);
+          setLiftedId(undefined);
+          setAnnouncement(`${item.title} dropped at position ${index + 1}`);
+        } else {
+          setDraftOrder(displayItems.map((displayItem) => displayItem.id));
+          setLiftedId(item.id);
+          setAnnouncement(
+            `${item.title} picked up at position ${
+              index + 1
+            }. Use the arrow keys to move, space to drop or escape to cancel`
+          );
+        }
+
+        break;
+      case 'ArrowLeft':
+      case 'ArrowUp':
+      case 'ArrowRight':
+      case 'ArrowDown':
+        if (liftedId === item.id) {
+          event.preventDefault();
+
+          const toIndex =
+            event.key === 'ArrowLeft' || event.key === 'ArrowUp' ? index - 1 : index + 1;
+
+          if (toIndex >= 0 && toIndex < displayItems.length) {
+            moveItem(item.id, toIndex);
+            setAnnouncement(`${item.title} moved to position ${toIndex + 1}`);
+          }
+        }
+
+        break;
+      case 'Escape':
+        if (liftedId === item.id) {
+          event.preventDefault();
+
+          setDraftOrder(undefined);
+          setLiftedId(undefined);
+          setAnnouncement(`Reordering cancelled`);
+        }
+
+        break;
+    }
+  };
+
   const handleAddToList = () => {
     // Set global state
     listDispatch({ type: 'SET_SELECTED_LIST', slug });
@@ -81,7 +244,24 @@ const List = ({ list, onEdit, onDelete }: ListProps) => {
   return (
     <>
       <div className="flex items-center space-x-8">
-        <h3 className="text-xl font-bold text-gray-900">{name}</h3>
+        <div className="flex items-center space-x-3">
+          <h3 className="text-xl font-bold text-gray-900">{name}</h3>
+
+          <span className="inline-flex items-center rounded-full bg-gray-100 px-2.5 py-0.5 text-xs font-medium text-gray-600">
+            {visibility === 'public' ? (
+              <GlobeAltIcon className="mr-1 h-4 w-4" aria-hidden="true" />
+            ) : visibility === 'unlisted' ? (
+              <EyeOffIcon className="mr-1 h-4 w-4" aria-hidden="true" />
+            ) : (
+              <LockClosedIcon className="mr-1 h-4 w-4" aria-hidden="true" />
+            )}
+            {visibility === 'public'
+              ? `Public`
+              : visibility === 'unlisted'
+              ? `Unlisted`
+              : `Private`}
+          </span>
+        </div>
         <div className="relative inline-block text-left" ref={menuRef}>
           <div>
             <button
@@ -133,11 +313,79 @@ const List = ({ list, onEdit, onDelete }: ListProps) => {
                 <TrashIcon className="mr-3 h-5 w-5 text-gray-400 group-hover:text-gray-500" />
                 Delete
               </button>
+
+              <button
+                type="button"
+                className="group flex w-full items-center px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 hover:text-gray-900"
+                role="menuitem"
+                tabIndex={-1}
+                id="menu-item-3"
+                onClick={handleShare}
+              >
+                <LinkIcon className="mr-3 h-5 w-5 text-gray-400 group-hover:text-gray-500" />
+                Copy share link
+              </button>
+            </div>
+
+            <div className="border-t border-gray-100 py-1" role="none">
+              {(
+                [
+                  ['csv', 'Export CSV'],
+                  ['json', 'Export JSON'],
+                  ['letterboxd', 'Export for Letterboxd'],
+                ] as [ExportFormat, string][]
+              ).map(([exportFormat, label], index) => (
+                <button
+                  key={exportFormat}
+                  type="button"
+                  className="group flex w-full items-center px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 hover:text-gray-900"
+                  role="menuitem"
+                  tabIndex={-1}
+                  id={`menu-item-${index + 4}`}
+                  onClick={() => handleExport(exportFormat)}
+                >
+                  <DownloadIcon className="mr-3 h-5 w-5 text-gray-400 group-hover:text-gray-500" />
+                  {label}
+                </button>
+              ))}
             </div>
           </div>
         </div>
+
+        <div className="flex flex-1 justify-end">
+          <label htmlFor={`sort-${slug}`} className="sr-only">
+            Sort by
+          </label>
+          <select
+            id={`sort-${slug}`}
+            name="sort"
+            className="block rounded-md border-gray-300 py-2 pl-3 pr-10 text-base focus:border-indigo-500 focus:outline-none focus:ring-indigo-500 sm:text-sm"
+            value={sortMode}
+            onChange={(event) => setSortMode(event.target.value as SortMode)}
+          >
+            <option value="manual">Manual order</option>
+            <option value="title">Title</option>
+            <option value="added">Date added</option>
+            <option value="release">Release date</option>
+            <option value="rating">Your rating</option>
+          </select>
+        </div>
       </div>
 
+      <p id={`reorder-help-${slug}`} className="sr-only">
+        Press space or enter to pick up an item, use the arrow keys to move it, then press space or
+        enter again to drop it.
+      </p>
+      <p className="sr-only" aria-live="assertive">
+        {announcement}
+      </p>
+
+      {error ? (
+        <div className="mt-4">
+          <Alert type="error" message={error} onClose={() => setError(undefined)} />
+        </div>
+      ) : null}
+
       <ul className="mt-4 grid grid-cols-2 gap-x-4 gap-y-8 sm:grid-cols-4 sm:gap-x-6 lg:grid-cols-8 lg:gap-x-8 xl:gap-x-12">
         <li>
           <div className="aspect-w-2 aspect-h-3">
@@ -156,24 +404,82 @@ const List = ({ list, onEdit, onDelete }: ListProps) => {
           </div>
         </li>
 
-        {items
-          ? items.map((item) => (
-              <li key={item.id} className="relative">
-                <ListItem
-                  item={{
-                    dbId: item.id,
-                    tmdbId: item.tmdbId,
-                    type: item.mediaType.toLowerCase() as ListItemType['type'],
-                    title: item.title,
-                    subTitle: item.subtitle,
-                    poster: item.posterUrl,
-                  }}
-                  action="remove"
-                  list={list}
-                />
-              </li>
-            ))
-          : null}
+        {displayItems.map((item) => (
+          <li
+            key={item.id}
+            className={
+              `relative` +
+              (dragId === item.id ? ` opacity-50` : ``) +
+              (liftedId === item.id ? ` rounded-lg ring-2 ring-indigo-500 ring-offset-4` : ``)
+            }
+            draggable={canReorder}
+            onDragStart={(event) => {
+              event.dataTransfer.effectAllowed = 'move';
+              event.dataTransfer.setData('text/plain', item.id);
+
+              setDragId(item.id);
+              setDraftOrder(displayItems.map((displayItem) => displayItem.id));
+            }}
+            onDragOver={(event) => {
+              if (dragId) {
+                event.preventDefault();
+
+                if (dragId !== item.id) {
+                  moveItem(
+                    dragId,
+                    displayItems.findIndex((displayItem) => displayItem.id === item.id)
+                  );
+                }
+              }
+            }}
+            onDrop={(event) => {
+              event.preventDefault();
+
+              if (draftOrder) {
+                commitOrder(draftOrder);
+              }
+
+              setDragId(undefined);
+            }}
+            onDragEnd={() => {
+              setDragId(undefined);
+              setDraftOrder(undefined);
+            }}
+          >
+            <ListItem
+              item={{
+                dbId: item.id,
+                tmdbId: item.tmdbId,
+                type: item.mediaType.toLowerCase() as ListItemType['type'],
+                title: item.title,
+                subTitle: item.subtitle,
+                poster: item.posterUrl,
+                status: item.status,
+                watchedAt: item.watchedAt,
+                rating: item.rating,
+                note: item.note,
+              }}
+              action="remove"
+              list={list}
+            />
+
+            {canReorder ? (
+              <button
+                type="button"
+                ref={(element) => {
+                  handleRefs.current[item.id] = element;
+                }}
+                className="mt-2 flex w-full cursor-move items-center justify-center rounded-md border border-dashed border-gray-300 py-1 text-xs font-medium text-gray-500 hover:border-gray-400 hover:text-gray-700 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                aria-pressed={liftedId === item.id}
+                aria-describedby={`reorder-help-${slug}`}
+                onKeyDown={(event) => handleReorderKey(event, item)}
+              >
+                <SwitchHorizontalIcon className="mr-1 h-4 w-4" aria-hidden="true" />
+                Move<span className="sr-only"> {item.title}</span>
+              </button>
+            ) : null}
+          </li>
+        ))}
       </ul>
     </>
   );
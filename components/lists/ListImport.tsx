@@ -0,0 +1,449 @@
+import { useState } from 'react';
+import Image from 'next/image';
+import { SearchIcon } from '@heroicons/react/solid';
+
+import Alert from '../assets/Alert';
+
+import { useListState, useListDispatch } from '../../hooks/useList';
+
+import type { ApiError } from '../../lib/api';
+import { addList } from '../../lib/api/lists';
+import { formatYear } from '../../lib/dates';
+import { imageUrl } from '../../lib/images';
+import {
+  importMatches,
+  ImportMatch,
+  ImportSource,
+  matchImportRow,
+  matchImportRows,
+  parseImportFile,
+  ParsedImport,
+} from '../../lib/import';
+
+// Types
+type Step = 'select' | 'matching' | 'review' | 'importing';
+
+type ListImportProps = {
+  onComplete: (title: string, description?: string) => void;
+  onCancel: () => void;
+};
+
+// Constants
+const sourceLabels: Record<ImportSource, string> = {
+  letterboxd: 'Letterboxd',
+  imdb: 'IMDb',
+  trakt: 'Trakt',
+};
+
+// Component
+const ListImport = ({ onComplete, onCancel }: ListImportProps) => {
+  // Hooks
+  const listState = useListState();
+  const listDispatch = useListDispatch();
+
+  // Local state
+  const [step, setStep] = useState<Step>('select');
+  const [file, setFile] = useState<File | undefined>(undefined);
+  const [target, setTarget] = useState('new');
+  const [name, setName] = useState('');
+
+  const [parsed, setParsed] = useState<ParsedImport | undefined>(undefined);
+  const [matches, setMatches] = useState<ImportMatch[]>([]);
+  const [queries, setQueries] = useState<Record<string, string>>({});
+  const [progress, setProgress] = useState(0);
+
+  const [error, setError] = useState<string | undefined>(undefined);
+
+  // Derived state
+  const selectedCount = matches.filter((match) => match.selectedId).length;
+  const needsReview = matches.filter((match) => match.status !== 'matched');
+  const matched = matches.filter((match) => match.status === 'matched');
+
+  const progressTotal = step === 'importing' ? selectedCount : parsed?.rows.length ?? 0;
+  const progressPercent = progressTotal > 0 ? Math.round((progress / progressTotal) * 100) : 0;
+
+  // Handlers
+  const handleFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const newFile = event.target.files?.[0];
+
+    setFile(newFile);
+
+    // Suggest a list name from the file name
+    if (newFile && name.trim() === '') {
+      setName(newFile.name.replace(/\.[^.]+$/, '').replace(/[-_]+/g, ' '));
+    }
+  };
+
+  const handleMatch = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+
+    if (!file) {
+      setError('Choose a file to import');
+      return;
+    }
+
+    if (target === 'new' && name.trim() === '') {
+      setError('Give the new list a name');
+      return;
+    }
+
+    setError(undefined);
+
+    file
+      .text()
+      .then((text) => {
+        const newParsed = parseImportFile(text, file.name);
+
+        if (newParsed.rows.length === 0) {
+          throw new Error('No movies or TV shows were found in this file');
+        }
+
+        setParsed(newParsed);
+        setProgress(0);
+        setStep('matching');
+
+        return matchImportRows(newParsed.rows, setProgress);
+      })
+      .then((newMatches) => {
+        setMatches(newMatches);
+        setStep('review');
+      })
+      .catch((error: Error) => {
+        setStep('select');
+        setError(error.message);
+      });
+  };
+
+  const handleSelect = (match: ImportMatch, value: string) => {
+    setMatches((matches) =>
+      matches.map((other) =>
+        other.row.key === match.row.key
+          ? { ...other, selectedId: value ? parseInt(value) : undefined }
+          : other
+      )
+    );
+  };
+
+  const handleSearch = (match: ImportMatch) => {
+    const query = (queries[match.row.key] ?? match.row.title).trim();
+
+    if (query === '') {
+      return;
+    }
+
+    matchImportRow({ ...match.row, title: query }).then((newMatch) => {
+      setMatches((matches) =>
+        matches.map((other) =>
+          other.row.key === match.row.key
+            ? {
+                ...newMatch,
+                row: match.row,
+                status: newMatch.candidates.length > 0 ? 'ambiguous' : 'unmatched',
+                selectedId: newMatch.candidates[0]?.tmdbId,
+              }
+            : other
+        )
+      );
+    });
+  };
+
+  const runImport = (listSlug: string) => {
+    setProgress(0);
+    setStep('importing');
+
+    importMatches({
+      listSlug,
+      matches,
+      onItem: (item) => listDispatch({ type: 'ADD_LIST_ITEM', slug: listSlug, item }),
+      onRated: (items) => listDispatch({ type: 'UPDATE_LIST_ITEMS', items }),
+      onProgress: setProgress,
+    })
+      .then(({ added, failed, statusFailed, ratingFailed }) => {
+        const details = [
+          failed > 0 ? `${failed} could not be added, they may already be in the list` : undefined,
+          statusFailed > 0 ? `${statusFailed} watched dates could not be saved` : undefined,
+          ratingFailed > 0 ? `${ratingFailed} ratings could not be saved` : undefined,
+        ].filter((detail) => detail);
+
+        onComplete(
+          `Imported ${added} ${added === 1 ? 'title' : 'titles'}`,
+          details.length > 0 ? details.join(', ') : undefined
+        );
+      })
+      .catch((error: ApiError) => {
+        setError(error.message);
+        setStep('review');
+      });
+  };
+
+  const handleImport = () => {
+    setError(undefined);
+
+    if (target !== 'new') {
+      runImport(target);
+      return;
+    }
+
+    addList({ name: name.trim() })
+      .then((list) => {
+        listDispatch({ type: 'ADD_LIST', list });
+        setTarget(list.slug);
+
+        runImport(list.slug);
+      })
+      .catch((error: ApiError) => {
+        setError(error.status === 422 ? 'A list with this name already exists' : error.message);
+      });
+  };
+
+  const renderMatch = (match: ImportMatch) => {
+    const selected = match.candidates.find((candidate) => candidate.tmdbId === match.selectedId);
+
+    return (
+      <li key={match.row.key} className="flex items-center py-4">
+        <div className="relative h-16 w-11 flex-none overflow-hidden rounded bg-gray-100">
+          {selected?.poster ? (
+            <Image
+              src={imageUrl(selected.poster, 'w220_and_h330_face')}
+              alt=""
+              layout="fill"
+              className="object-cover"
+            />
+          ) : null}
+        </div>
+
+        <div className="ml-4 min-w-0 flex-1">
+          <p className="truncate text-sm font-medium text-gray-900">
+            {match.row.title}
+            {match.row.year ? (
+              <span className="font-light text-gray-500"> ({match.row.year})</span>
+            ) : null}
+          </p>
+          <p className="text-sm text-gray-500">
+            {match.row.mediaType === 'movie' ? `Movie` : `TV Show`}
+            {match.status === 'ambiguous'
+              ? ` • Several possible matches`
+              : match.status === 'unmatched'
+              ? ` • No match found`
+              : null}
+          </p>
+        </div>
+
+        <div className="ml-4 w-40 flex-none sm:w-72">
+          {match.candidates.length > 0 ? (
+            <>
+              <label htmlFor={`match-${match.row.key}`} className="sr-only">
+                Match for {match.row.title}
+              </label>
+              <select
+                id={`match-${match.row.key}`}
+                className="block w-full rounded-md border-gray-300 py-2 pl-3 pr-10 text-base focus:border-indigo-500 focus:outline-none focus:ring-indigo-500 sm:text-sm"
+                value={match.selectedId ?? ''}
+                onChange={(event) => handleSelect(match, event.target.value)}
+              >
+                <option value="">Don&apos;t import</option>
+                {match.candidates.map((candidate) => (
+                  <option key={candidate.tmdbId} value={candidate.tmdbId}>
+                    {candidate.title}
+                    {candidate.releaseDate ? ` (${formatYear(candidate.releaseDate)})` : ``}
+                  </option>
+                ))}
+              </select>
+            </>
+          ) : (
+            <div className="flex rounded-md shadow-sm">
+              <label htmlFor={`search-${match.row.key}`} className="sr-only">
+                Search again for {match.row.title}
+              </label>
+              <input
+                type="text"
+                id={`search-${match.row.key}`}
+                className="block w-full min-w-0 flex-1 rounded-none rounded-l-md border-gray-300 focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                placeholder="Search again"
+                value={queries[match.row.key] ?? match.row.title}
+                onChange={(event) =>
+                  setQueries((queries) => ({ ...queries, [match.row.key]: event.target.value }))
+                }
+                onKeyDown={(event) => {
+                  if (event.key === 'Enter') {
+                    event.preventDefault();
+                    handleSearch(match);
+                  }
+                }}
+              />
+              <button
+                type="button"
+                className="-ml-px inline-flex items-center rounded-r-md border border-gray-300 bg-gray-50 px-3 text-gray-500 hover:bg-gray-100 focus:border-indigo-500 focus:outline-none focus:ring-1 focus:ring-indigo-500"
+                onClick={() => handleSearch(match)}
+              >
+                <SearchIcon className="h-5 w-5" aria-hidden="true" />
+                <span className="sr-only">Search</span>
+              </button>
+            </div>
+          )}
+        </div>
+      </li>
+    );
+  };
+
+  // Render
+  return (
+    <div className="rounded-lg border border-gray-200 bg-white p-4 shadow-sm sm:p-6">
+      <h3 className="text-lg font-medium leading-6 text-gray-900">Import a list</h3>
+
+      {error ? (
+        <div className="mt-4">
+          <Alert type="error" message={error} onClose={() => setError(undefined)} />
+        </div>
+      ) : null}
+
+      {step === 'select' ? (
+        <form className="mt-4" onSubmit={handleMatch}>
+          <p className="text-sm text-gray-500">
+            Upload a Letterboxd CSV export, an IMDb ratings or watchlist CSV, or a Trakt JSON
+            export. Watched dates and ratings are brought across where the file has them.
+          </p>
+
+          <div className="mt-4 grid grid-cols-1 gap-4 sm:grid-cols-3">
+            <div>
+              <label htmlFor="import-file" className="block text-sm font-medium text-gray-700">
+                Export file
+              </label>
+              <input
+                type="file"
+                id="import-file"
+                name="import-file"
+                accept=".csv,.json,text/csv,application/json"
+                className="mt-1 block w-full text-sm text-gray-500 file:mr-4 file:rounded-md file:border-0 file:bg-indigo-50 file:py-2 file:px-4 file:text-sm file:font-medium file:text-indigo-700 hover:file:bg-indigo-100"
+                onChange={handleFile}
+              />
+            </div>
+
+            <div>
+              <label htmlFor="import-target" className="block text-sm font-medium text-gray-700">
+                Add to
+              </label>
+              <select
+                id="import-target"
+                name="import-target"
+                className="mt-1 block w-full rounded-md border-gray-300 py-2 pl-3 pr-10 text-base focus:border-indigo-500 focus:outline-none focus:ring-indigo-500 sm:text-sm"
+                value={target}
+                onChange={(event) => setTarget(event.target.value)}
+              >
+                <option value="new">A new list</option>
+                {listState.lists?.map((list) => (
+                  <option key={list.slug} value={list.slug}>
+                    {list.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {target === 'new' ? (
+              <div>
+                <label htmlFor="import-name" className="block text-sm font-medium text-gray-700">
+                  List name
+                </label>
+                <input
+                  type="text"
+                  id="import-name"
+                  name="import-name"
+                  className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 text-gray-900 placeholder-gray-500 focus:border-indigo-500 focus:outline-none focus:ring-indigo-500 sm:text-sm"
+                  placeholder="List name"
+                  value={name}
+                  onChange={(event) => setName(event.target.value)}
+                />
+              </div>
+            ) : null}
+          </div>
+
+          <div className="mt-5 flex space-x-3">
+            <button
+              type="submit"
+              className="inline-flex items-center justify-center rounded-md border border-transparent bg-indigo-600 px-4 py-2 text-sm font-medium text-white shadow-sm hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2"
+            >
+              Match titles
+            </button>
+            <button
+              type="button"
+              className="inline-flex items-center justify-center rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 shadow-sm hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2"
+              onClick={onCancel}
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      ) : null}
+
+      {step === 'matching' || step === 'importing' ? (
+        <div className="mt-4">
+          <p className="text-sm text-gray-500" aria-live="polite">
+            {step === 'matching' ? `Matching` : `Adding`} {progress} of {progressTotal}{' '}
+            {progressTotal === 1 ? `title` : `titles`}...
+          </p>
+          <div
+            className="mt-2 h-2 overflow-hidden rounded-full bg-gray-200"
+            role="progressbar"
+            aria-valuemin={0}
+            aria-valuemax={100}
+            aria-valuenow={progressPercent}
+          >
+            <div
+              className="h-2 rounded-full bg-indigo-600 transition-all"
+              style={{ width: `${progressPercent}%` }}
+            />
+          </div>
+        </div>
+      ) : null}
+
+      {step === 'review' && parsed ? (
+        <div className="mt-4">
+          <p className="text-sm text-gray-500">
+            Found {parsed.rows.length} {parsed.rows.length === 1 ? `title` : `titles`} in this{' '}
+            {sourceLabels[parsed.source]} export
+            {parsed.skipped > 0
+              ? `, skipping ${parsed.skipped} episodes or other entries`
+              : ``}. {matched.length} matched automatically, {needsReview.length} need a look.
+          </p>
+
+          {needsReview.length > 0 ? (
+            <div className="mt-6">
+              <h4 className="text-sm font-medium text-gray-900">Needs review</h4>
+              <ul className="divide-y divide-gray-200">{needsReview.map(renderMatch)}</ul>
+            </div>
+          ) : null}
+
+          {matched.length > 0 ? (
+            <div className="mt-6">
+              <h4 className="text-sm font-medium text-gray-900">Matched</h4>
+              <ul className="divide-y divide-gray-200">{matched.map(renderMatch)}</ul>
+            </div>
+          ) : null}
+
+          <div className="mt-5 flex space-x-3 border-t border-gray-200 pt-5">
+            <button
+              type="button"
+              className={
+                `inline-flex items-center justify-center rounded-md border border-transparent bg-indigo-600 px-4 py-2 text-sm font-medium text-white shadow-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2` +
+                (selectedCount === 0 ? ` opacity-75` : ` hover:bg-indigo-700`)
+              }
+              disabled={selectedCount === 0}
+              onClick={handleImport}
+            >
+              Import {selectedCount} {selectedCount === 1 ? `title` : `titles`}
+            </button>
+            <button
+              type="button"
+              className="inline-flex items-center justify-center rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 shadow-sm hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2"
+              onClick={onCancel}
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      ) : null}
+    </div>
+  );
+};
+
+export default ListImport;
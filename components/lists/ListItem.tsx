@@ -1,9 +1,18 @@
+import { useState } from 'react';
 import Link from 'next/link';
 import Image from 'next/image';
 import { PlusSmIcon, MinusSmIcon } from '@heroicons/react/solid';
 
+import StarRating from '../assets/StarRating';
+import Notification from '../assets/Notification';
+
 import type { ListItem as ListItemType } from '../../lib/format';
-import type { List } from '../../lib/api/types';
+import type { List, ListItemStatus } from '../../lib/api/types';
+import type { ApiError } from '../../lib/api';
+import { updateListItemStatus } from '../../lib/api/lists';
+import { formatShortMonthDate } from '../../lib/dates';
+import { imageUrl } from '../../lib/images';
+import { useListDispatch } from '../../hooks/useList';
 import { useListModalDispatch } from '../../hooks/useListModal';
 
 // Types
@@ -27,13 +36,53 @@ interface ListItemRemove extends ListItemBase {
 
 type ListItemProps = ListItemNoAction | ListItemAdd | ListItemRemove;
 
+// Constants
+const statusLabels: Record<ListItemStatus, string> = {
+  'to-watch': 'To watch',
+  watching: 'Watching',
+  watched: 'Watched',
+  abandoned: 'Abandoned',
+};
+
 // Component
 const ListItem = ({ showType = true, ...rest }: ListItemProps) => {
   // Hooks
+  const listDispatch = useListDispatch();
   const listModalDispatch = useListModalDispatch();
 
   // Derived state
-  const { tmdbId, type, poster, title, subTitle } = rest.item;
+  const { dbId, tmdbId, type, poster, title, subTitle, status, watchedAt, rating, note } =
+    rest.item;
+
+  // Local state
+  const [statusLoading, setStatusLoading] = useState(false);
+  const [statusError, setStatusError] = useState<string | undefined>(undefined);
+
+  // Handlers
+  const handleStatusChange = (newStatus: ListItemStatus) => {
+    if (rest.action === 'remove' && dbId) {
+      const listSlug = rest.list.slug;
+
+      setStatusLoading(true);
+      setStatusError(undefined);
+
+      updateListItemStatus({
+        listSlug,
+        listItemId: dbId,
+        status: newStatus,
+        watchedAt: newStatus === 'watched' ? new Date().toISOString() : null,
+      })
+        .then((listItem) => {
+          listDispatch({ type: 'UPDATE_LIST_ITEM', slug: listSlug, item: listItem });
+
+          setStatusLoading(false);
+        })
+        .catch((error: ApiError) => {
+          setStatusLoading(false);
+          setStatusError(error.message);
+        });
+    }
+  };
 
   // Render
   return (
@@ -112,7 +161,7 @@ const ListItem = ({ showType = true, ...rest }: ListItemProps) => {
         <a className="group aspect-w-2 aspect-h-3 block w-full overflow-hidden rounded-lg bg-gray-100 focus-within:ring-2 focus-within:ring-indigo-500 focus-within:ring-offset-2 focus-within:ring-offset-gray-100">
           {poster && (
             <Image
-              src={`https://www.themoviedb.org/t/p/w220_and_h330_face${poster}`}
+              src={imageUrl(poster, 'w220_and_h330_face')}
               alt=""
               layout="fill"
               className="pointer-events-none object-cover group-hover:opacity-75"
@@ -129,6 +178,65 @@ const ListItem = ({ showType = true, ...rest }: ListItemProps) => {
         {title}
       </p>
       <p className="pointer-events-none block text-sm font-medium text-gray-500">{subTitle}</p>
+
+      {rest.action === 'remove' && type !== 'person' && (rating || note) ? (
+        <div className="mt-1">
+          {rating ? <StarRating rating={rating} /> : null}
+          {note ? (
+            <p className="mt-1 block truncate text-xs italic text-gray-500" title={note}>
+              {note}
+            </p>
+          ) : null}
+        </div>
+      ) : null}
+
+      {rest.action === 'remove' && dbId && type !== 'person' ? (
+        <div className="mt-2">
+          <label htmlFor={`status-${dbId}`} className="sr-only">
+            Watch status
+          </label>
+          <select
+            id={`status-${dbId}`}
+            name="status"
+            className={
+              `block w-full rounded-md py-1 pl-2 pr-8 text-xs font-medium focus:outline-none focus:ring-indigo-500` +
+              (status === 'watched'
+                ? ` border-green-300 bg-green-50 text-green-800`
+                : status === 'watching'
+                ? ` border-yellow-300 bg-yellow-50 text-yellow-800`
+                : status === 'abandoned'
+                ? ` border-gray-300 bg-gray-100 text-gray-500`
+                : ` border-gray-300 text-gray-700`) +
+              (statusLoading ? ` opacity-75` : ``)
+            }
+            value={status ?? 'to-watch'}
+            disabled={statusLoading}
+            onChange={(event) => handleStatusChange(event.target.value as ListItemStatus)}
+          >
+            {(Object.keys(statusLabels) as ListItemStatus[]).map((value) => (
+              <option key={value} value={value}>
+                {statusLabels[value]}
+              </option>
+            ))}
+          </select>
+
+          {status === 'watched' && watchedAt ? (
+            <p className="pointer-events-none mt-1 block text-xs text-gray-400">
+              Watched {formatShortMonthDate(watchedAt)}
+            </p>
+          ) : null}
+        </div>
+      ) : null}
+
+      {statusError ? (
+        <Notification
+          visible={true}
+          type="error"
+          title="Unable to update watch status"
+          description={statusError.replace(/\.$/, '')}
+          onClose={() => setStatusError(undefined)}
+        />
+      ) : null}
     </div>
   );
 };
@@ -12,6 +12,7 @@ import { useListModalDispatch, useListModalState } from '../../hooks/useListModa
 
 import { ApiError } from '../../lib/api';
 import { addList, addListItem, deleteListItem, getAllLists } from '../../lib/api/lists';
+import { imageUrl } from '../../lib/images';
 
 // Types
 type NotificationType = Omit<NotificationProps, 'onClose'>;
@@ -74,9 +75,9 @@ const ListModal = () => {
 
     // First, add the list
     if (listModalState.visible && listModalState.operation === 'add') {
-      const { tmdbId, title, type, poster, subTitle } = listModalState.item;
+      const { tmdbId, title, type, poster, subTitle, releaseDate } = listModalState.item;
 
-      addList(name)
+      addList({ name })
         .then((newList) => {
           listDispatch({ type: 'ADD_LIST', list: newList });
 
@@ -87,6 +88,7 @@ const ListModal = () => {
             title,
             subtitle: subTitle,
             posterUrl: poster,
+            releaseDate,
           })
             .then((listItem) => {
               listDispatch({ type: 'ADD_LIST_ITEM', slug: newList.slug, item: listItem });
@@ -122,7 +124,7 @@ const ListModal = () => {
     setSubmitLoading(true);
 
     if (list && listModalState.visible && listModalState.operation === 'add') {
-      const { tmdbId, title, type, poster, subTitle } = listModalState.item;
+      const { tmdbId, title, type, poster, subTitle, releaseDate } = listModalState.item;
 
       addListItem({
         listSlug: list,
@@ -131,6 +133,7 @@ const ListModal = () => {
         title,
         subtitle: subTitle,
         posterUrl: poster,
+        releaseDate,
       })
         .then((listItem) => {
           listDispatch({ type: 'ADD_LIST_ITEM', slug: list, item: listItem });
@@ -217,7 +220,7 @@ const ListModal = () => {
               <div className="aspect-w-2 aspect-h-3 block w-full overflow-hidden rounded-lg bg-gray-100 focus-within:ring-2 focus-within:ring-indigo-500 focus-within:ring-offset-2 focus-within:ring-offset-gray-100">
                 {listModalState.item.poster && (
                   <Image
-                    src={`https://www.themoviedb.org/t/p/w220_and_h330_face${listModalState.item.poster}`}
+                    src={imageUrl(listModalState.item.poster, 'w220_and_h330_face')}
                     alt=""
                     layout="fill"
                     className="pointer-events-none object-cover"
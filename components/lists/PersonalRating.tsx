@@ -0,0 +1,215 @@
+import { useEffect, useState } from 'react';
+import { PencilAltIcon } from '@heroicons/react/solid';
+
+import Modal from '../assets/Modal';
+import Alert from '../assets/Alert';
+import StarRating from '../assets/StarRating';
+
+import { useUserState } from '../../hooks/useUser';
+import { useListState, useListDispatch } from '../../hooks/useList';
+
+import type { ApiError } from '../../lib/api';
+import { getAllLists, rateListItem } from '../../lib/api/lists';
+import type { ListItem as ListItemType } from '../../lib/format';
+
+// Types
+type PersonalRatingProps = {
+  item: ListItemType;
+};
+
+// Component
+const PersonalRating = ({ item }: PersonalRatingProps) => {
+  // Hooks
+  const userState = useUserState();
+  const listState = useListState();
+  const listDispatch = useListDispatch();
+
+  // Derived state
+  const mediaType = item.type === 'movie' ? 'MOVIE' : 'TV';
+
+  const savedItem = listState.lists
+    ?.flatMap((list) => list.items ?? [])
+    .find((listItem) => listItem.mediaType === mediaType && listItem.tmdbId === item.tmdbId);
+
+  // Local state
+  const [showModal, setShowModal] = useState(false);
+  const [rating, setRating] = useState<number | null>(null);
+  const [note, setNote] = useState('');
+
+  const [submitLoading, setSubmitLoading] = useState(false);
+  const [error, setError] = useState<string | undefined>(undefined);
+  const [loadError, setLoadError] = useState(false);
+
+  // Effects
+  useEffect(() => {
+    // We need the user's lists to know whether this title has been saved
+    if (userState.auth && !listState.lists && !loadError) {
+      getAllLists()
+        .then((lists) => {
+          listDispatch({ type: 'SET_LISTS', lists });
+        })
+        .catch(() => {
+          setLoadError(true);
+        });
+    }
+  }, [userState, listState.lists, loadError, listDispatch]);
+
+  // Handlers
+  const handleOpen = () => {
+    setRating(savedItem?.rating ?? null);
+    setNote(savedItem?.note ?? '');
+    setError(undefined);
+    setSubmitLoading(false);
+    setShowModal(true);
+  };
+
+  const handleSave = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+
+    setError(undefined);
+    setSubmitLoading(true);
+
+    rateListItem({
+      mediaType,
+      tmdbId: item.tmdbId,
+      rating,
+      note: note.trim() !== '' ? note.trim() : null,
+    })
+      .then((items) => {
+        listDispatch({ type: 'UPDATE_LIST_ITEMS', items });
+
+        setSubmitLoading(false);
+        setShowModal(false);
+      })
+      .catch((error: ApiError) => {
+        // Nothing was saved, so show what is actually stored
+        setRating(savedItem?.rating ?? null);
+        setNote(savedItem?.note ?? '');
+
+        setSubmitLoading(false);
+        setError(`Your rating was not saved: ${error.message}`);
+      });
+  };
+
+  // Render
+  if (item.type === 'person') {
+    return null;
+  }
+
+  if (loadError) {
+    return (
+      <div>
+        <p className="text-xs font-medium uppercase tracking-wide text-gray-300">Your rating</p>
+        <p className="mt-1 text-sm font-light text-gray-200">Unable to load your rating</p>
+      </div>
+    );
+  }
+
+  if (!savedItem) {
+    return null;
+  }
+
+  return (
+    <>
+      <div>
+        <p className="text-xs font-medium uppercase tracking-wide text-gray-300">Your rating</p>
+
+        <div className="mt-1 flex items-center space-x-3">
+          <StarRating rating={savedItem.rating} theme="dark" />
+
+          <button
+            type="button"
+            className="inline-flex items-center text-sm font-medium text-gray-200 hover:text-white focus:outline-none focus:ring-2 focus:ring-white"
+            onClick={handleOpen}
+          >
+            <PencilAltIcon className="mr-1 h-4 w-4" aria-hidden="true" />
+            {savedItem.rating || savedItem.note ? `Edit` : `Rate`}
+          </button>
+        </div>
+
+        {savedItem.note ? (
+          <p className="mt-1 max-w-xs truncate text-sm font-light italic text-gray-200">
+            {savedItem.note}
+          </p>
+        ) : null}
+      </div>
+
+      <Modal
+        title="personal-rating-modal-title"
+        visible={showModal}
+        canClose={true}
+        onClose={() => setShowModal(false)}
+      >
+        <form onSubmit={handleSave}>
+          <h3
+            className="text-lg font-medium leading-6 text-gray-900"
+            id="personal-rating-modal-title"
+          >
+            Rate {item.title}
+          </h3>
+
+          {error ? (
+            <div className="mt-4">
+              <Alert type="error" message={error} onClose={() => setError(undefined)} />
+            </div>
+          ) : null}
+
+          <div className="mt-4 flex items-center space-x-4">
+            <StarRating rating={rating} size="lg" onChange={setRating} />
+
+            {rating ? (
+              <button
+                type="button"
+                className="text-sm font-medium text-gray-500 hover:text-gray-700"
+                onClick={() => setRating(null)}
+              >
+                Clear
+              </button>
+            ) : null}
+          </div>
+
+          <div className="mt-4">
+            <label htmlFor="note" className="block text-sm font-medium text-gray-700">
+              Note
+            </label>
+            <textarea
+              id="note"
+              name="note"
+              rows={4}
+              className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 text-gray-900 placeholder-gray-500 focus:border-indigo-500 focus:outline-none focus:ring-indigo-500 sm:text-sm"
+              placeholder="What did you think?"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+            />
+          </div>
+
+          <div className="mt-5 sm:mt-4 sm:flex sm:flex-row-reverse">
+            <button
+              type="submit"
+              className={
+                `inline-flex w-full justify-center rounded-md border border-transparent bg-indigo-600 px-4 py-2 text-base font-medium text-white shadow-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 sm:ml-3 sm:w-auto sm:text-sm` +
+                (submitLoading ? ` opacity-75` : ` hover:bg-indigo-700`)
+              }
+              disabled={submitLoading}
+            >
+              {submitLoading ? `Please wait...` : `Save`}
+            </button>
+            <button
+              type="button"
+              className={
+                `mt-3 inline-flex w-full justify-center rounded-md border border-gray-300 bg-white px-4 py-2 text-base font-medium text-gray-700 shadow-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 sm:mt-0 sm:w-auto sm:text-sm` +
+                (submitLoading ? ` opacity-75` : ` hover:bg-gray-50`)
+              }
+              disabled={submitLoading}
+              onClick={() => setShowModal(false)}
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      </Modal>
+    </>
+  );
+};
+
+export default PersonalRating;
@@ -0,0 +1,168 @@
+import { useState } from 'react';
+import Image from 'next/image';
+import type { WatchProviderResponse } from 'moviedb-promise/dist/request-types';
+
+import Alert from '../assets/Alert';
+
+import { useUserDispatch, useUserState } from '../../hooks/useUser';
+
+import type { ApiError } from '../../lib/api';
+import { updateRegion } from '../../lib/api/auth';
+import { imageUrl } from '../../lib/images';
+import { regionName } from '../../lib/regions';
+
+// Types
+type WatchProvidersProps = {
+  providers: WatchProviderResponse;
+  region: string;
+};
+
+type ProviderRegion = NonNullable<NonNullable<WatchProviderResponse['results']>['US']>;
+type Provider = NonNullable<ProviderRegion['flatrate']>[number];
+
+// Constants
+const groups: [keyof ProviderRegion, string][] = [
+  ['flatrate', 'Stream'],
+  ['rent', 'Rent'],
+  ['buy', 'Buy'],
+];
+
+// Component
+const WatchProviders = ({ providers, region: initialRegion }: WatchProvidersProps) => {
+  // Hooks
+  const userState = useUserState();
+  const userDispatch = useUserDispatch();
+
+  // Local state
+  const [region, setRegion] = useState(initialRegion);
+  const [error, setError] = useState<string | undefined>(undefined);
+
+  // Derived state
+  const results: Record<string, ProviderRegion | undefined> = providers.results ?? {};
+
+  const regions = Object.keys(results)
+    .concat(results[region] ? [] : [region])
+    .map((code) => ({ code, name: regionName(code) }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  const regionProviders = results[region];
+
+  const providerGroups = groups
+    .map(([key, label]) => ({
+      label,
+      providers: ((regionProviders?.[key] ?? []) as Provider[])
+        .slice()
+        .sort((a, b) => (a.display_priority ?? 0) - (b.display_priority ?? 0)),
+    }))
+    .filter((group) => group.providers.length > 0);
+
+  // Handlers
+  const changeRegion = (newRegion: string) => {
+    const previousRegion = region;
+
+    setRegion(newRegion);
+    setError(undefined);
+
+    // Remember the choice for next time
+    if (userState.auth) {
+      updateRegion(newRegion)
+        .then((user) => {
+          userDispatch({
+            type: 'SET_USER',
+            user: {
+              auth: true,
+              user: {
+                id: user.id,
+                name: user.name,
+                email: user.email,
+                emailVerified: user.emailVerified,
+                region: user.region,
+              },
+            },
+          });
+        })
+        .catch((error: ApiError) => {
+          // Go back to the region that is actually saved
+          setRegion(previousRegion);
+          setError(`Your region was not saved: ${error.message}`);
+        });
+    }
+  };
+
+  // Render
+  return (
+    <div className="mx-auto mt-12 max-w-7xl px-4 sm:px-6 lg:px-8">
+      <div className="border-b border-gray-200 pb-5 sm:flex sm:items-center sm:justify-between">
+        <h3 className="text-lg font-medium leading-6 text-gray-900">Where to watch</h3>
+
+        <div className="mt-3 sm:mt-0 sm:ml-4">
+          <label htmlFor="watch-region" className="sr-only">
+            Region
+          </label>
+          <select
+            id="watch-region"
+            name="watch-region"
+            className="block w-full rounded-md border-gray-300 py-2 pl-3 pr-10 text-base focus:border-indigo-500 focus:outline-none focus:ring-indigo-500 sm:text-sm"
+            value={region}
+            onChange={(event) => changeRegion(event.target.value)}
+          >
+            {regions.map(({ code, name }) => (
+              <option key={code} value={code}>
+                {name}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {error ? (
+        <div className="mt-6">
+          <Alert type="error" message={error} onClose={() => setError(undefined)} />
+        </div>
+      ) : null}
+
+      {providerGroups.length > 0 ? (
+        <div className="mt-6 space-y-6 sm:flex sm:space-y-0 sm:space-x-12">
+          {providerGroups.map((group) => (
+            <div key={group.label}>
+              <h4 className="text-sm font-medium text-gray-500">{group.label}</h4>
+
+              <ul className="mt-2 flex flex-wrap gap-3">
+                {group.providers.map((provider) => (
+                  <li key={provider.provider_id}>
+                    <a
+                      href={regionProviders?.link}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="relative block h-12 w-12 overflow-hidden rounded-lg bg-gray-100 shadow-sm hover:opacity-75"
+                      title={provider.provider_name}
+                    >
+                      {provider.logo_path ? (
+                        <Image
+                          src={imageUrl(provider.logo_path, 'w92')}
+                          alt={provider.provider_name}
+                          layout="fill"
+                          className="object-cover"
+                        />
+                      ) : (
+                        <span className="sr-only">{provider.provider_name}</span>
+                      )}
+                    </a>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="mt-6 text-sm text-gray-500">
+          Not available to stream, rent or buy in {regionName(region)} right now.
+        </p>
+      )}
+
+      <p className="mt-4 text-xs text-gray-400">Availability data provided by JustWatch.</p>
+    </div>
+  );
+};
+
+export default WatchProviders;
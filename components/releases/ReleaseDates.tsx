@@ -0,0 +1,134 @@
+import { useState } from 'react';
+
+import { formatShortDate } from '../../lib/dates';
+import type { CountryRelease } from '../../lib/releases';
+import { regionName } from '../../lib/regions';
+
+// Types
+type ReleaseDatesProps = {
+  releases: CountryRelease[];
+  region: string;
+};
+
+type ReleaseColumn = 'theatrical' | 'digital' | 'physical';
+
+// Constants
+const columns: [ReleaseColumn, string][] = [
+  ['theatrical', 'Theatrical'],
+  ['digital', 'Digital'],
+  ['physical', 'Physical'],
+];
+
+// Component
+const ReleaseDates = ({ releases, region }: ReleaseDatesProps) => {
+  // Local state
+  const [showAll, setShowAll] = useState(false);
+
+  // Derived state
+  const regionRelease = releases.find((release) => release.region === region);
+
+  // Render
+  if (releases.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mx-auto mt-12 max-w-7xl px-4 sm:px-6 lg:px-8">
+      <div className="border-b border-gray-200 pb-5 sm:flex sm:items-center sm:justify-between">
+        <h3 className="text-lg font-medium leading-6 text-gray-900">
+          Release dates <span className="font-normal text-gray-500">in {regionName(region)}</span>
+        </h3>
+
+        <div className="mt-3 sm:mt-0 sm:ml-4">
+          <button
+            type="button"
+            className="text-sm font-medium text-indigo-600 hover:text-indigo-500"
+            aria-expanded={showAll}
+            aria-controls="release-dates-table"
+            onClick={() => setShowAll(!showAll)}
+          >
+            {showAll ? `Hide other countries` : `All ${releases.length} countries`}
+          </button>
+        </div>
+      </div>
+
+      {regionRelease ? (
+        <dl className="mt-6 grid grid-cols-2 gap-6 sm:grid-cols-4">
+          <div>
+            <dt className="text-sm font-medium text-gray-500">Certification</dt>
+            <dd className="mt-1 text-sm text-gray-900">
+              {regionRelease.certification ?? 'Not rated'}
+            </dd>
+          </div>
+
+          {columns.map(([key, label]) => (
+            <div key={key}>
+              <dt className="text-sm font-medium text-gray-500">{label}</dt>
+              <dd className="mt-1 text-sm text-gray-900">
+                {formatShortDate(regionRelease[key]) ?? 'Unknown'}
+              </dd>
+            </div>
+          ))}
+        </dl>
+      ) : (
+        <p className="mt-6 text-sm text-gray-500">
+          No release dates found for {regionName(region)}.
+        </p>
+      )}
+
+      {showAll ? (
+        <div
+          id="release-dates-table"
+          className="mt-6 overflow-x-auto rounded-lg shadow ring-1 ring-black ring-opacity-5"
+        >
+          <table className="min-w-full divide-y divide-gray-300">
+            <thead className="bg-gray-50">
+              <tr>
+                <th
+                  scope="col"
+                  className="py-3 pl-4 pr-3 text-left text-sm font-semibold text-gray-900"
+                >
+                  Country
+                </th>
+                <th scope="col" className="px-3 py-3 text-left text-sm font-semibold text-gray-900">
+                  Certification
+                </th>
+                {columns.map(([key, label]) => (
+                  <th
+                    key={key}
+                    scope="col"
+                    className="px-3 py-3 text-left text-sm font-semibold text-gray-900"
+                  >
+                    {label}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 bg-white">
+              {releases.map((release) => (
+                <tr
+                  key={release.region}
+                  className={release.region === region ? `bg-indigo-50` : undefined}
+                >
+                  <td className="whitespace-nowrap py-3 pl-4 pr-3 text-sm font-medium text-gray-900">
+                    {release.name}
+                  </td>
+                  <td className="whitespace-nowrap px-3 py-3 text-sm text-gray-500">
+                    {release.certification ?? '-'}
+                  </td>
+                  {columns.map(([key]) => (
+                    <td key={key} className="whitespace-nowrap px-3 py-3 text-sm text-gray-500">
+                      {formatShortDate(release[key]) ?? '-'}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : null}
+    </div>
+  );
+};
+
+export default ReleaseDates;
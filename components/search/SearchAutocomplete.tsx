@@ -0,0 +1,282 @@
+import { useEffect, useRef, useState } from 'react';
+import Image from 'next/image';
+import { useRouter } from 'next/router';
+import { SearchIcon } from '@heroicons/react/solid';
+
+import type { ApiError } from '../../lib/api';
+import { searchAll } from '../../lib/api/search';
+import { formatSearchAll, ListItem } from '../../lib/format';
+import { imageUrl } from '../../lib/images';
+
+// Constants
+const debounceDelay = 250;
+const minQueryLength = 2;
+const maxResults = 8;
+
+const typeLabels: Record<ListItem['type'], string> = {
+  movie: 'Movie',
+  tv: 'TV Show',
+  person: 'Person',
+};
+
+// Component
+const SearchAutocomplete = () => {
+  // Hooks
+  const router = useRouter();
+
+  // Local state
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<ListItem[]>([]);
+  const [showResults, setShowResults] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState(false);
+
+  // Refs
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Derived state
+  const trimmedQuery = query.trim();
+  const seeAllIndex = results.length;
+  const isOpen = showResults && trimmedQuery.length >= minQueryLength;
+
+  // Effects
+  useEffect(() => {
+    if (trimmedQuery.length < minQueryLength) {
+      setResults([]);
+      setError(false);
+      setLoading(false);
+
+      return;
+    }
+
+    setError(false);
+    setLoading(true);
+
+    const controller = new AbortController();
+
+    const timeout = setTimeout(() => {
+      searchAll({ query: trimmedQuery, page: 1, signal: controller.signal })
+        .then((data) => {
+          // The query changed while this was resolving
+          if (controller.signal.aborted) {
+            return;
+          }
+
+          setResults(formatSearchAll(data).slice(0, maxResults));
+          setActiveIndex(-1);
+          setLoading(false);
+        })
+        .catch((error: ApiError) => {
+          if (error.name !== 'AbortError' && !controller.signal.aborted) {
+            setResults([]);
+            setError(true);
+            setLoading(false);
+          }
+        });
+    }, debounceDelay);
+
+    return () => {
+      // Cancel anything still in flight for an older query
+      clearTimeout(timeout);
+      controller.abort();
+    };
+  }, [trimmedQuery]);
+
+  useEffect(() => {
+    const outsideClickListener = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Element)) {
+        setShowResults(false);
+      }
+    };
+
+    document.addEventListener('click', outsideClickListener);
+
+    return () => {
+      document.removeEventListener('click', outsideClickListener);
+    };
+  }, []);
+
+  useEffect(() => {
+    // Close after navigating to a result
+    const handleRouteChange = () => {
+      setShowResults(false);
+      setQuery('');
+    };
+
+    router.events.on('routeChangeComplete', handleRouteChange);
+
+    return () => {
+      router.events.off('routeChangeComplete', handleRouteChange);
+    };
+  }, [router.events]);
+
+  // Handlers
+  const seeAll = () => {
+    setShowResults(false);
+
+    router.push({
+      pathname: '/',
+      query: { search: trimmedQuery, tab: 'all', page: '1' },
+    });
+  };
+
+  const openResult = (result: ListItem) => {
+    setShowResults(false);
+
+    router.push(`/${result.type}/${result.tmdbId}`);
+  };
+
+  const handleSubmit = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+
+    if (trimmedQuery !== '') {
+      seeAll();
+    }
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    switch (event.key) {
+      case 'ArrowDown':
+        event.preventDefault();
+
+        setShowResults(true);
+        setActiveIndex((index) => (index >= seeAllIndex ? 0 : index + 1));
+
+        break;
+      case 'ArrowUp':
+        event.preventDefault();
+
+        setShowResults(true);
+        setActiveIndex((index) => (index <= 0 ? seeAllIndex : index - 1));
+
+        break;
+      case 'Enter':
+        if (isOpen && activeIndex >= 0 && activeIndex < seeAllIndex) {
+          event.preventDefault();
+
+          openResult(results[activeIndex]);
+        }
+
+        // Otherwise the form submits and goes to the full search
+        break;
+      case 'Escape':
+        if (isOpen) {
+          event.preventDefault();
+
+          setShowResults(false);
+          setActiveIndex(-1);
+        } else {
+          setQuery('');
+        }
+
+        break;
+    }
+  };
+
+  // Render
+  return (
+    <div className="relative" ref={containerRef}>
+      <form method="get" action="/" role="search" onSubmit={handleSubmit}>
+        <label htmlFor="search" className="sr-only">
+          Search
+        </label>
+        <div className="relative rounded-md text-gray-400 focus-within:text-gray-600">
+          <div className="pointer-events-none absolute inset-y-0 left-0 flex items-center pl-3">
+            <SearchIcon className="h-5 w-5" />
+          </div>
+          <input
+            id="search"
+            className="block w-full rounded-md border-gray-300 pl-10 focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+            placeholder="Search"
+            type="search"
+            name="search"
+            autoComplete="off"
+            role="combobox"
+            aria-autocomplete="list"
+            aria-expanded={isOpen}
+            aria-controls="search-suggestions"
+            aria-activedescendant={
+              isOpen && activeIndex >= 0 ? `search-suggestion-${activeIndex}` : undefined
+            }
+            value={query}
+            onChange={(event) => {
+              setQuery(event.target.value);
+              setShowResults(true);
+            }}
+            onFocus={() => setShowResults(true)}
+            onKeyDown={handleKeyDown}
+          />
+        </div>
+      </form>
+
+      {isOpen ? (
+        <ul
+          id="search-suggestions"
+          className="absolute right-0 z-20 mt-2 max-h-[70vh] w-full min-w-[18rem] overflow-y-auto rounded-md bg-white py-1 shadow-lg ring-1 ring-black ring-opacity-5 focus:outline-none"
+          role="listbox"
+          aria-label="Search suggestions"
+        >
+          {error ? (
+            <li className="px-4 py-2 text-sm text-red-600">Unable to search, please try again</li>
+          ) : loading && results.length === 0 ? (
+            <li className="px-4 py-2 text-sm text-gray-500">Searching...</li>
+          ) : !loading && results.length === 0 ? (
+            <li className="px-4 py-2 text-sm text-gray-500">No matches found</li>
+          ) : null}
+
+          {results.map((result, index) => (
+            <li
+              key={`${result.type}-${result.tmdbId}`}
+              id={`search-suggestion-${index}`}
+              className={
+                `flex cursor-pointer items-center px-4 py-2` +
+                (index === activeIndex ? ` bg-gray-100` : ``)
+              }
+              role="option"
+              aria-selected={index === activeIndex}
+              onMouseEnter={() => setActiveIndex(index)}
+              onMouseDown={(event) => event.preventDefault()}
+              onClick={() => openResult(result)}
+            >
+              <div className="relative h-12 w-8 flex-none overflow-hidden rounded bg-gray-100">
+                {result.poster ? (
+                  <Image
+                    src={imageUrl(result.poster, 'w220_and_h330_face')}
+                    alt=""
+                    layout="fill"
+                    className="object-cover"
+                  />
+                ) : null}
+              </div>
+              <div className="ml-3 min-w-0">
+                <p className="truncate text-sm font-medium text-gray-900">{result.title}</p>
+                <p className="truncate text-xs text-gray-500">
+                  {typeLabels[result.type]}
+                  {result.subTitle ? ` • ${result.subTitle}` : null}
+                </p>
+              </div>
+            </li>
+          ))}
+
+          <li
+            id={`search-suggestion-${seeAllIndex}`}
+            className={
+              `cursor-pointer border-t border-gray-100 px-4 py-2 text-sm font-medium text-indigo-600` +
+              (activeIndex === seeAllIndex ? ` bg-gray-100` : ``)
+            }
+            role="option"
+            aria-selected={activeIndex === seeAllIndex}
+            onMouseEnter={() => setActiveIndex(seeAllIndex)}
+            onMouseDown={(event) => event.preventDefault()}
+            onClick={seeAll}
+          >
+            See all results for &ldquo;{trimmedQuery}&rdquo;
+          </li>
+        </ul>
+      ) : null}
+    </div>
+  );
+};
+
+export default SearchAutocomplete;
@@ -0,0 +1,101 @@
+import { useState } from 'react';
+import Image from 'next/image';
+import type { Video } from 'moviedb-promise/dist/request-types';
+import parseISO from 'date-fns/parseISO';
+import compareDesc from 'date-fns/compareDesc';
+import { PlayIcon } from '@heroicons/react/solid';
+
+import VideoModal, { videoEmbedUrl } from './VideoModal';
+
+// Types
+type TrailersProps = {
+  videos: Video[];
+};
+
+// Constants
+const videoTypes = ['Trailer', 'Teaser', 'Featurette'];
+const initialCount = 4;
+
+// Component
+const Trailers = ({ videos }: TrailersProps) => {
+  // Local state
+  const [activeVideo, setActiveVideo] = useState<Video | undefined>(undefined);
+  const [showAll, setShowAll] = useState(false);
+
+  // Derived state
+  const trailers = videos
+    .filter((video) => video.type && videoTypes.includes(video.type) && videoEmbedUrl(video))
+    .sort(
+      (a, b) =>
+        videoTypes.indexOf(a.type ?? '') - videoTypes.indexOf(b.type ?? '') ||
+        Number(b.official ?? false) - Number(a.official ?? false) ||
+        (a.published_at && b.published_at
+          ? compareDesc(parseISO(a.published_at), parseISO(b.published_at))
+          : 0)
+    );
+
+  const visibleTrailers = showAll ? trailers : trailers.slice(0, initialCount);
+
+  // Render
+  if (trailers.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mx-auto mt-12 max-w-7xl px-4 sm:px-6 lg:px-8">
+      <div className="border-b border-gray-200 pb-5 sm:flex sm:items-center sm:justify-between">
+        <h3 className="text-lg font-medium leading-6 text-gray-900">Trailers</h3>
+
+        {trailers.length > initialCount ? (
+          <div className="mt-3 sm:mt-0 sm:ml-4">
+            <button
+              type="button"
+              className="text-sm font-medium text-indigo-600 hover:text-indigo-500"
+              onClick={() => setShowAll(!showAll)}
+            >
+              {showAll ? `Show fewer` : `Show all ${trailers.length} videos`}
+            </button>
+          </div>
+        ) : null}
+      </div>
+
+      <ul className="mt-8 grid grid-cols-1 gap-x-4 gap-y-8 sm:grid-cols-2 lg:grid-cols-4">
+        {visibleTrailers.map((video) => (
+          <li key={video.id} className="relative">
+            <button
+              type="button"
+              className="group aspect-w-16 aspect-h-9 block w-full overflow-hidden rounded-lg bg-gray-900 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 focus:ring-offset-gray-100"
+              onClick={() => setActiveVideo(video)}
+            >
+              {video.site === 'YouTube' ? (
+                <Image
+                  src={`https://i.ytimg.com/vi/${video.key}/hqdefault.jpg`}
+                  alt=""
+                  layout="fill"
+                  className="pointer-events-none object-cover group-hover:opacity-75"
+                />
+              ) : null}
+
+              <span className="flex items-center justify-center">
+                <PlayIcon className="h-12 w-12 text-white opacity-90" aria-hidden="true" />
+              </span>
+
+              <span className="sr-only">Play {video.name}</span>
+            </button>
+
+            <p className="pointer-events-none mt-2 block truncate text-sm font-medium text-gray-900">
+              {video.name}
+            </p>
+            <p className="pointer-events-none block text-sm font-medium text-gray-500">
+              {video.type}
+            </p>
+          </li>
+        ))}
+      </ul>
+
+      <VideoModal video={activeVideo} onClose={() => setActiveVideo(undefined)} />
+    </div>
+  );
+};
+
+export default Trailers;
@@ -0,0 +1,69 @@
+import type { Video } from 'moviedb-promise/dist/request-types';
+
+import Modal from '../assets/Modal';
+
+// Types
+type VideoModalProps = {
+  video?: Video;
+  onClose: () => void;
+};
+
+// Helpers
+export const videoEmbedUrl = (video: Video) => {
+  switch (video.site) {
+    case 'YouTube':
+      return `https://www.youtube-nocookie.com/embed/${video.key}?autoplay=1&rel=0`;
+    case 'Vimeo':
+      return `https://player.vimeo.com/video/${video.key}?autoplay=1`;
+    default:
+      return undefined;
+  }
+};
+
+// Component
+const VideoModal = ({ video, onClose }: VideoModalProps) => {
+  // Derived state
+  const embedUrl = video ? videoEmbedUrl(video) : undefined;
+
+  // Render
+  return (
+    <Modal
+      title="video-modal-title"
+      visible={!!video}
+      canClose={true}
+      wide={true}
+      onClose={onClose}
+    >
+      {video && embedUrl ? (
+        <>
+          <h3 className="pr-8 text-lg font-medium leading-6 text-gray-900" id="video-modal-title">
+            {video.name}
+          </h3>
+
+          {/* Only mounted while open, so nothing loads until asked and playback stops on close */}
+          <div className="aspect-w-16 aspect-h-9 mt-4 overflow-hidden rounded-md bg-black">
+            <iframe
+              src={embedUrl}
+              title={video.name ?? 'Video player'}
+              allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture"
+              allowFullScreen
+            />
+          </div>
+
+          <div className="mt-5 sm:mt-4 sm:flex sm:flex-row-reverse">
+            <button
+              type="button"
+              className="inline-flex w-full justify-center rounded-md border border-gray-300 bg-white px-4 py-2 text-base font-medium text-gray-700 shadow-sm hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 sm:w-auto sm:text-sm"
+              autoFocus
+              onClick={onClose}
+            >
+              Close
+            </button>
+          </div>
+        </>
+      ) : null}
+    </Modal>
+  );
+};
+
+export default VideoModal;
@@ -9,6 +9,9 @@ type ListAction =
   | { type: 'UPDATE_LIST'; slug: string; list: List }
   | { type: 'REMOVE_LIST'; slug: string }
   | { type: 'ADD_LIST_ITEM'; slug: string; item: ListItem }
+  | { type: 'UPDATE_LIST_ITEM'; slug: string; item: ListItem }
+  | { type: 'UPDATE_LIST_ITEMS'; items: ListItem[] }
+  | { type: 'REORDER_LIST_ITEMS'; slug: string; itemIds: string[] }
   | { type: 'REMOVE_LIST_ITEM'; slug: string; itemId: string }
   | { type: 'SET_SELECTED_LIST'; slug: string }
   | { type: 'CLEAR_SELECTED_LIST' };
@@ -76,8 +79,32 @@ const listReducer = (state: ListState, action: ListAction): ListState => {
       const updatedLists = state.lists.map((list) => {
         if (list.slug === action.slug) {
           const currentItems = list.items || [];
-          const updatedItems = [...currentItems, action.item].sort((a, b) =>
-            a.title.localeCompare(b.title)
+          const updatedItems = [...currentItems, action.item];
+
+          return {
+            ...list,
+            items: updatedItems,
+          };
+        }
+
+        return list;
+      });
+
+      return {
+        ...state,
+        lists: updatedLists,
+      };
+    }
+    case 'UPDATE_LIST_ITEM': {
+      if (!state.lists) {
+        throw new Error(`No user lists found`);
+      }
+
+      const updatedLists = state.lists.map((list) => {
+        if (list.slug === action.slug) {
+          const currentItems = list.items || [];
+          const updatedItems = currentItems.map((item) =>
+            item.id === action.item.id ? action.item : item
           );
 
           return {
@@ -94,6 +121,55 @@ const listReducer = (state: ListState, action: ListAction): ListState => {
         lists: updatedLists,
       };
     }
+    case 'UPDATE_LIST_ITEMS': {
+      if (!state.lists) {
+        throw new Error(`No user lists found`);
+      }
+
+      const updatedLists = state.lists.map((list) => {
+        const currentItems = list.items || [];
+        const updatedItems = currentItems.map(
+          (item) => action.items.find((updatedItem) => updatedItem.id === item.id) ?? item
+        );
+
+        return {
+          ...list,
+          items: updatedItems,
+        };
+      });
+
+      return {
+        ...state,
+        lists: updatedLists,
+      };
+    }
+    case 'REORDER_LIST_ITEMS': {
+      if (!state.lists) {
+        throw new Error(`No user lists found`);
+      }
+
+      const updatedLists = state.lists.map((list) => {
+        if (list.slug === action.slug) {
+          const currentItems = list.items || [];
+          const updatedItems = action.itemIds
+            .map((itemId) => currentItems.find((item) => item.id === itemId))
+            .filter((item): item is ListItem => item !== undefined)
+            .map((item, index) => ({ ...item, position: index }));
+
+          return {
+            ...list,
+            items: updatedItems,
+          };
+        }
+
+        return list;
+      });
+
+      return {
+        ...state,
+        lists: updatedLists,
+      };
+    }
     case 'REMOVE_LIST_ITEM': {
       if (!state.lists) {
         throw new Error(`No user lists found`);
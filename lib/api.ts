@@ -1,4 +1,10 @@
-import type { ShowResponse } from 'moviedb-promise/dist/request-types';
+import type {
+  Episode,
+  MovieResponse,
+  NetworkResponse,
+  ShowResponse,
+  TvSeasonResponse,
+} from 'moviedb-promise/dist/request-types';
 
 // Types
 export interface ApiError extends Error {
@@ -21,10 +27,33 @@ type ResponseError = {
 
 export type ApiResponse<T> = ResponsePending | ResponseSuccess<T> | ResponseError;
 
+export type MovieCollection = {
+  id: number;
+  name: string;
+  poster_path: string | null;
+  backdrop_path: string | null;
+};
+
+export interface ExtMovieResponse extends MovieResponse {
+  belongs_to_collection?: MovieCollection;
+}
+
+export interface ExtNetworkResponse extends NetworkResponse {
+  logo_path?: string | null;
+}
+
 export interface ExtShowResponse extends ShowResponse {
   tagline?: string;
 }
 
+export interface ExtEpisode extends Episode {
+  runtime?: number | null;
+}
+
+export interface ExtSeasonResponse extends TvSeasonResponse {
+  episodes?: ExtEpisode[];
+}
+
 // Helpers
 const buildHttpError = async (response: Response): Promise<ApiError> => {
   const responseText = await response.text();
@@ -59,3 +88,12 @@ export const apiFetch = async <T>(url: string, init?: RequestInit): Promise<T> =
 
   return await response.json();
 };
+
+export const optionalFetch = async <T>(request: Promise<T>): Promise<T | undefined> => {
+  // Optional page data shouldn't take the whole page down with it
+  try {
+    return await request;
+  } catch (error) {
+    return undefined;
+  }
+};
@@ -1,5 +1,5 @@
 import { apiFetch, apiRaw } from '../api';
-import type { User } from './types';
+import type { Session, User } from './types';
 
 // Types
 type UnauthenticatedUser = {
@@ -12,6 +12,8 @@ type AuthenticatedUser = {
     id: string;
     name: string;
     email: string;
+    emailVerified: boolean;
+    region: string | null;
   };
 };
 
@@ -28,10 +30,19 @@ export type SignInParams = {
   password: string;
 };
 
+export type ResetPasswordParams = {
+  token: string;
+  password: string;
+};
+
 export type UpdateParams = {
   name: string;
   email: string;
-  password: string;
+};
+
+export type ChangePasswordParams = {
+  currentPassword: string;
+  newPassword: string;
 };
 
 // Handlers
@@ -50,17 +61,48 @@ export const registerUser = async ({ name, email, password }: RegisterParams) =>
   });
 };
 
-export const updateUser = async ({ name, email, password }: UpdateParams) => {
-  return apiFetch<User>(`/auth/account/${email}`, {
+export const updateUser = async ({ name, email }: UpdateParams) => {
+  return apiFetch<User>(`/auth/account`, {
     method: 'POST',
     body: JSON.stringify({
       name,
       email,
-      password,
     }),
   });
 };
 
+export const changePassword = async ({ currentPassword, newPassword }: ChangePasswordParams) => {
+  // Also signs out every other session, so a stolen one doesn't outlive the old password
+  await apiRaw(`/auth/password`, {
+    method: 'POST',
+    body: JSON.stringify({
+      currentPassword,
+      newPassword,
+    }),
+  });
+
+  return;
+};
+
+export const updateRegion = async (region: string) => {
+  return apiFetch<User>(`/auth/region`, {
+    method: 'POST',
+    body: JSON.stringify({
+      region,
+    }),
+  });
+};
+
+export const verifyEmail = async (token: string) => {
+  return apiFetch<User>(`/auth/verify-email/${encodeURIComponent(token)}`, { method: 'POST' });
+};
+
+export const resendVerification = async () => {
+  await apiRaw(`/auth/resend-verification`, { method: 'POST' });
+
+  return;
+};
+
 export const deleteUser = async (email: string) => {
   await apiRaw(`/auth/delete/${email}`, { method: 'POST' });
 
@@ -80,3 +122,47 @@ export const signIn = async ({ email, password }: SignInParams) => {
 export const signOut = async () => {
   return apiFetch<void>(`/auth/sign-out`, { method: 'POST' });
 };
+
+export const getSessions = async (headers?: HeadersInit) => {
+  return apiFetch<Session[]>(`/auth/sessions`, { headers });
+};
+
+export const signOutSession = async (id: string) => {
+  await apiRaw(`/auth/sessions/${encodeURIComponent(id)}/sign-out`, { method: 'POST' });
+
+  return;
+};
+
+export const signOutOtherSessions = async () => {
+  await apiRaw(`/auth/sessions/sign-out-others`, { method: 'POST' });
+
+  return;
+};
+
+export const requestPasswordReset = async (email: string) => {
+  await apiRaw(`/auth/forgot-password`, {
+    method: 'POST',
+    body: JSON.stringify({
+      email,
+    }),
+  });
+
+  return;
+};
+
+export const checkResetToken = async (token: string) => {
+  await apiRaw(`/auth/reset-password/${encodeURIComponent(token)}`);
+
+  return;
+};
+
+export const resetPassword = async ({ token, password }: ResetPasswordParams) => {
+  await apiRaw(`/auth/reset-password/${encodeURIComponent(token)}`, {
+    method: 'POST',
+    body: JSON.stringify({
+      password,
+    }),
+  });
+
+  return;
+};
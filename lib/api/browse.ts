@@ -0,0 +1,21 @@
+import type { Company, KeywordResponse } from 'moviedb-promise/dist/request-types';
+
+import { apiFetch, ExtNetworkResponse } from '../api';
+
+// Types
+type GetArgs = {
+  id: number;
+};
+
+// Exports
+export const getCompany = async ({ id }: GetArgs) => {
+  return apiFetch<Company>(`/company/${id}`);
+};
+
+export const getNetwork = async ({ id }: GetArgs) => {
+  return apiFetch<ExtNetworkResponse>(`/network/${id}`);
+};
+
+export const getKeyword = async ({ id }: GetArgs) => {
+  return apiFetch<KeywordResponse>(`/keyword/${id}`);
+};
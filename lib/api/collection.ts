@@ -0,0 +1,13 @@
+import type { CollectionInfoResponse } from 'moviedb-promise/dist/request-types';
+
+import { apiFetch } from '../api';
+
+// Types
+type GetArgs = {
+  id: number;
+};
+
+// Exports
+export const getCollection = async ({ id }: GetArgs) => {
+  return apiFetch<CollectionInfoResponse>(`/collection/${id}`);
+};
@@ -0,0 +1,46 @@
+import type {
+  CertificationsResponse,
+  DiscoverMovieRequest,
+  DiscoverMovieResponse,
+  DiscoverTvRequest,
+  DiscoverTvResponse,
+  GenresResponse,
+} from 'moviedb-promise/dist/request-types';
+
+import { apiFetch } from '../api';
+
+// Types
+type GetGenresArgs = {
+  mediaType: 'movie' | 'tv';
+};
+
+// Helpers
+const buildQuery = (params: DiscoverMovieRequest | DiscoverTvRequest) => {
+  const searchParams = new URLSearchParams();
+
+  // Leave out anything unset so TMDB applies its own defaults
+  Object.entries(params).forEach(([key, value]) => {
+    if (value !== undefined && value !== null && value !== '') {
+      searchParams.set(key, value.toString());
+    }
+  });
+
+  return searchParams.toString();
+};
+
+// Exports
+export const discoverMovies = async (params: DiscoverMovieRequest) => {
+  return apiFetch<DiscoverMovieResponse>(`/discover/movie?${buildQuery(params)}`);
+};
+
+export const discoverTv = async (params: DiscoverTvRequest) => {
+  return apiFetch<DiscoverTvResponse>(`/discover/tv?${buildQuery(params)}`);
+};
+
+export const getGenres = async ({ mediaType }: GetGenresArgs) => {
+  return apiFetch<GenresResponse>(`/genre/${mediaType}/list`);
+};
+
+export const getMovieCertifications = async () => {
+  return apiFetch<CertificationsResponse>(`/certification/movie/list`);
+};
@@ -1,10 +1,16 @@
 import { apiFetch, apiRaw } from '../api';
-import type { List, ListItem } from './types';
+import type { List, ListItem, ListItemStatus, ListVisibility } from './types';
 
 // Types
+type AddListArgs = {
+  name: string;
+  visibility?: ListVisibility;
+};
+
 type UpdateListArgs = {
   slug: string;
   name: string;
+  visibility?: ListVisibility;
 };
 
 type AddListItemArgs = {
@@ -14,6 +20,26 @@ type AddListItemArgs = {
   title: string;
   subtitle?: string;
   posterUrl?: string;
+  releaseDate?: string;
+};
+
+type ReorderListItemsArgs = {
+  listSlug: string;
+  itemIds: string[];
+};
+
+type UpdateListItemStatusArgs = {
+  listSlug: string;
+  listItemId: string;
+  status: ListItemStatus;
+  watchedAt?: string | null;
+};
+
+type RateListItemArgs = {
+  mediaType: 'MOVIE' | 'TV';
+  tmdbId: number;
+  rating: number | null;
+  note: string | null;
 };
 
 type DeleteListItemArgs = {
@@ -26,24 +52,26 @@ export const getAllLists = async (headers?: HeadersInit) => {
   return apiFetch<List[]>(`/list`, { headers });
 };
 
-export const getList = async (slug: string) => {
-  return apiFetch<List>(`/list/${slug}`);
+export const getList = async (slug: string, headers?: HeadersInit) => {
+  return apiFetch<List>(`/list/${slug}`, { headers });
 };
 
-export const addList = async (name: string) => {
+export const addList = async ({ name, visibility }: AddListArgs) => {
   return apiFetch<List>(`/list`, {
     method: 'POST',
     body: JSON.stringify({
       name,
+      visibility,
     }),
   });
 };
 
-export const updateList = async ({ slug, name }: UpdateListArgs) => {
+export const updateList = async ({ slug, name, visibility }: UpdateListArgs) => {
   return apiFetch<List>(`/list/${slug}`, {
     method: 'POST',
     body: JSON.stringify({
       name,
+      visibility,
     }),
   });
 };
@@ -63,6 +91,7 @@ export const addListItem = async ({
   title,
   subtitle,
   posterUrl,
+  releaseDate,
 }: AddListItemArgs) => {
   return apiFetch<ListItem>(`/list-item/${listSlug}`, {
     method: 'POST',
@@ -72,6 +101,44 @@ export const addListItem = async ({
       title,
       subtitle,
       posterUrl,
+      releaseDate,
+    }),
+  });
+};
+
+export const reorderListItems = async ({ listSlug, itemIds }: ReorderListItemsArgs) => {
+  return apiFetch<ListItem[]>(`/list-item/${listSlug}/reorder`, {
+    method: 'POST',
+    body: JSON.stringify({
+      itemIds,
+    }),
+  });
+};
+
+export const updateListItemStatus = async ({
+  listSlug,
+  listItemId,
+  status,
+  watchedAt,
+}: UpdateListItemStatusArgs) => {
+  return apiFetch<ListItem>(`/list-item/${listSlug}/status/${listItemId}`, {
+    method: 'POST',
+    body: JSON.stringify({
+      status,
+      watchedAt,
+    }),
+  });
+};
+
+export const rateListItem = async ({ mediaType, tmdbId, rating, note }: RateListItemArgs) => {
+  // Updates every saved copy of the title, across all of the user's lists
+  return apiFetch<ListItem[]>(`/list-item/rating`, {
+    method: 'POST',
+    body: JSON.stringify({
+      mediaType,
+      tmdbId,
+      rating,
+      note,
     }),
   });
 };
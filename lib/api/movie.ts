@@ -1,10 +1,16 @@
 import type {
   CreditsResponse,
-  MovieResponse,
+  MovieImagesResponse,
+  MovieKeywordResponse,
+  MovieRecommendationsResponse,
+  MovieReleaseDatesResponse,
   MovieResultsResponse,
+  SimilarMovieResponse,
+  VideosResponse,
+  WatchProviderResponse,
 } from 'moviedb-promise/dist/request-types';
 
-import { apiFetch } from '../api';
+import { apiFetch, ExtMovieResponse } from '../api';
 
 // Types
 type SearchArgs = {
@@ -18,13 +24,43 @@ type GetArgs = {
 
 // Exports
 export const searchMovie = async ({ query, page }: SearchArgs) => {
-  return apiFetch<MovieResultsResponse>(`/movie/search?query=${query}&page=${page}`);
+  return apiFetch<MovieResultsResponse>(
+    `/movie/search?query=${encodeURIComponent(query)}&page=${page}`
+  );
 };
 
 export const getMovie = async ({ id }: GetArgs) => {
-  return apiFetch<MovieResponse>(`/movie/${id}`);
+  return apiFetch<ExtMovieResponse>(`/movie/${id}`);
 };
 
 export const getMovieCredits = async ({ id }: GetArgs) => {
   return apiFetch<CreditsResponse>(`/movie/${id}/credits`);
 };
+
+export const getMovieRecommendations = async ({ id }: GetArgs) => {
+  return apiFetch<MovieRecommendationsResponse>(`/movie/${id}/recommendations`);
+};
+
+export const getSimilarMovies = async ({ id }: GetArgs) => {
+  return apiFetch<SimilarMovieResponse>(`/movie/${id}/similar`);
+};
+
+export const getMovieVideos = async ({ id }: GetArgs) => {
+  return apiFetch<VideosResponse>(`/movie/${id}/videos`);
+};
+
+export const getMovieImages = async ({ id }: GetArgs) => {
+  return apiFetch<MovieImagesResponse>(`/movie/${id}/images`);
+};
+
+export const getMovieWatchProviders = async ({ id }: GetArgs) => {
+  return apiFetch<WatchProviderResponse>(`/movie/${id}/watch/providers`);
+};
+
+export const getMovieReleaseDates = async ({ id }: GetArgs) => {
+  return apiFetch<MovieReleaseDatesResponse>(`/movie/${id}/release_dates`);
+};
+
+export const getMovieKeywords = async ({ id }: GetArgs) => {
+  return apiFetch<MovieKeywordResponse>(`/movie/${id}/keywords`);
+};
@@ -1,6 +1,7 @@
 import type {
   Person,
   PersonCombinedCreditsResponse,
+  PersonImagesResponse,
   SearchPersonResponse,
 } from 'moviedb-promise/dist/request-types';
 
@@ -18,7 +19,9 @@ type GetArgs = {
 
 // Exports
 export const searchPerson = async ({ query, page }: SearchArgs) => {
-  return apiFetch<SearchPersonResponse>(`/person/search?query=${query}&page=${page}`);
+  return apiFetch<SearchPersonResponse>(
+    `/person/search?query=${encodeURIComponent(query)}&page=${page}`
+  );
 };
 
 export const getPerson = async ({ id }: GetArgs) => {
@@ -28,3 +31,7 @@ export const getPerson = async ({ id }: GetArgs) => {
 export const getPersonCredits = async ({ id }: GetArgs) => {
   return apiFetch<PersonCombinedCreditsResponse>(`/person/${id}/credits`);
 };
+
+export const getPersonImages = async ({ id }: GetArgs) => {
+  return apiFetch<PersonImagesResponse>(`/person/${id}/images`);
+};
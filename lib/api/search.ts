@@ -3,16 +3,27 @@ import type { SearchMultiResponse, TrendingResponse } from 'moviedb-promise/dist
 import { apiFetch } from '../api';
 
 // Types
+export type TrendingMediaType = 'all' | 'movie' | 'tv' | 'person';
+export type TrendingTimeWindow = 'day' | 'week';
+
+type TrendingArgs = {
+  mediaType?: TrendingMediaType;
+  timeWindow?: TrendingTimeWindow;
+};
+
 type SearchArgs = {
   query: string;
   page: number;
+  signal?: AbortSignal;
 };
 
 // Exports
-export const getTrending = async () => {
-  return apiFetch<TrendingResponse>(`/trending`);
+export const getTrending = async ({ mediaType = 'all', timeWindow = 'day' }: TrendingArgs = {}) => {
+  return apiFetch<TrendingResponse>(`/trending/${mediaType}/${timeWindow}`);
 };
 
-export const searchAll = async ({ query, page }: SearchArgs) => {
-  return apiFetch<SearchMultiResponse>(`/search?query=${query}&page=${page}`);
+export const searchAll = async ({ query, page, signal }: SearchArgs) => {
+  return apiFetch<SearchMultiResponse>(`/search?query=${encodeURIComponent(query)}&page=${page}`, {
+    signal,
+  });
 };
@@ -1,6 +1,14 @@
-import type { CreditsResponse, TvResultsResponse } from 'moviedb-promise/dist/request-types';
+import type {
+  CreditsResponse,
+  TvImagesResponse,
+  TvKeywordsResponse,
+  TvResultsResponse,
+  TvSimilarShowsResponse,
+  VideosResponse,
+  WatchProviderResponse,
+} from 'moviedb-promise/dist/request-types';
 
-import { apiFetch, ExtShowResponse } from '../api';
+import { apiFetch, ExtEpisode, ExtSeasonResponse, ExtShowResponse } from '../api';
 
 // Types
 type SearchArgs = {
@@ -12,9 +20,20 @@ type GetArgs = {
   id: number;
 };
 
+type GetSeasonArgs = {
+  id: number;
+  seasonNumber: number;
+};
+
+type GetEpisodeArgs = {
+  id: number;
+  seasonNumber: number;
+  episodeNumber: number;
+};
+
 // Exports
 export const searchTv = async ({ query, page }: SearchArgs) => {
-  return apiFetch<TvResultsResponse>(`/tv/search?query=${query}&page=${page}`);
+  return apiFetch<TvResultsResponse>(`/tv/search?query=${encodeURIComponent(query)}&page=${page}`);
 };
 
 export const getTvShow = async ({ id }: GetArgs) => {
@@ -24,3 +43,35 @@ export const getTvShow = async ({ id }: GetArgs) => {
 export const getTvCredits = async ({ id }: GetArgs) => {
   return apiFetch<CreditsResponse>(`/tv/${id}/credits`);
 };
+
+export const getTvRecommendations = async ({ id }: GetArgs) => {
+  return apiFetch<TvResultsResponse>(`/tv/${id}/recommendations`);
+};
+
+export const getSimilarTvShows = async ({ id }: GetArgs) => {
+  return apiFetch<TvSimilarShowsResponse>(`/tv/${id}/similar`);
+};
+
+export const getTvVideos = async ({ id }: GetArgs) => {
+  return apiFetch<VideosResponse>(`/tv/${id}/videos`);
+};
+
+export const getTvImages = async ({ id }: GetArgs) => {
+  return apiFetch<TvImagesResponse>(`/tv/${id}/images`);
+};
+
+export const getTvWatchProviders = async ({ id }: GetArgs) => {
+  return apiFetch<WatchProviderResponse>(`/tv/${id}/watch/providers`);
+};
+
+export const getTvKeywords = async ({ id }: GetArgs) => {
+  return apiFetch<TvKeywordsResponse>(`/tv/${id}/keywords`);
+};
+
+export const getTvSeason = async ({ id, seasonNumber }: GetSeasonArgs) => {
+  return apiFetch<ExtSeasonResponse>(`/tv/${id}/season/${seasonNumber}`);
+};
+
+export const getTvEpisode = async ({ id, seasonNumber, episodeNumber }: GetEpisodeArgs) => {
+  return apiFetch<ExtEpisode>(`/tv/${id}/season/${seasonNumber}/episode/${episodeNumber}`);
+};
@@ -1,13 +1,24 @@
+export type ListItemStatus = 'to-watch' | 'watching' | 'watched' | 'abandoned';
+
 export type ListItem = {
   id: string;
   listId: string;
+  createdAt: string;
+  position: number;
   mediaType: 'MOVIE' | 'TV' | 'PERSON';
   tmdbId: number;
   title: string;
   subtitle: string;
   posterUrl: string;
+  releaseDate: string | null;
+  status: ListItemStatus;
+  watchedAt: string | null;
+  rating: number | null;
+  note: string | null;
 };
 
+export type ListVisibility = 'private' | 'unlisted' | 'public';
+
 export type List = {
   id: string;
   userId: string;
@@ -15,6 +26,7 @@ export type List = {
   updatedAt: string;
   name: string;
   slug: string;
+  visibility: ListVisibility;
   items?: ListItem[];
 };
 
@@ -24,5 +36,16 @@ export type User = {
   updatedAt: string;
   name: string;
   email: string;
+  emailVerified: boolean;
+  region: string | null;
   lists: List[];
 };
+
+export type Session = {
+  id: string;
+  createdAt: string;
+  lastActiveAt: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  current: boolean;
+};
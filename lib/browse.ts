@@ -0,0 +1,61 @@
+import type { ParsedUrlQuery } from 'querystring';
+import type {
+  DiscoverMovieResponse,
+  DiscoverTvRequest,
+  DiscoverTvResponse,
+} from 'moviedb-promise/dist/request-types';
+
+import { discoverMovies, discoverTv } from './api/discover';
+
+// Types
+export type BrowseMedia = 'movie' | 'tv';
+
+export type BrowseQuery = {
+  id: number;
+  media: BrowseMedia;
+  page: number;
+};
+
+type BrowseFilter = Pick<
+  DiscoverTvRequest,
+  'with_companies' | 'with_networks' | 'with_keywords' | 'with_genres'
+>;
+
+type BrowseArgs = {
+  media: BrowseMedia;
+  page: number;
+  filter: BrowseFilter;
+};
+
+// Constants
+// TMDB won't page past this
+export const maxPage = 500;
+
+// Helpers
+export const parseBrowseQuery = (
+  query: ParsedUrlQuery,
+  media: BrowseMedia[]
+): BrowseQuery | undefined => {
+  const id = parseInt((query.id ?? '').toString());
+  const page = parseInt((query.page ?? '').toString());
+
+  if (isNaN(id)) {
+    return undefined;
+  }
+
+  return {
+    id,
+    media: media.find((type) => type === query.media) ?? media[0],
+    page: isNaN(page) ? 1 : Math.min(Math.max(page, 1), maxPage),
+  };
+};
+
+export const browse = async ({
+  media,
+  page,
+  filter,
+}: BrowseArgs): Promise<DiscoverMovieResponse | DiscoverTvResponse> => {
+  const params = { ...filter, page, sort_by: 'popularity.desc' as const };
+
+  return media === 'movie' ? discoverMovies(params) : discoverTv(params);
+};
@@ -1,6 +1,7 @@
 import format from 'date-fns/format';
 import parseISO from 'date-fns/parseISO';
 import differenceInYears from 'date-fns/differenceInYears';
+import formatDistanceToNow from 'date-fns/formatDistanceToNow';
 
 export const formatShortMonthDate = (isoString?: string) => {
   if (!isoString) {
@@ -26,6 +27,14 @@ export const formatAge = (birthday?: string, deathday?: string | null) => {
   return differenceInYears(deathday ? parseISO(deathday) : new Date(), parseISO(birthday));
 };
 
+export const formatTimeAgo = (isoString?: string) => {
+  if (!isoString) {
+    return undefined;
+  }
+
+  return formatDistanceToNow(parseISO(isoString), { addSuffix: true });
+};
+
 export const formatYear = (isoString?: string) => {
   if (!isoString) {
     return undefined;
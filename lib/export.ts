@@ -0,0 +1,129 @@
+import format from 'date-fns/format';
+import parseISO from 'date-fns/parseISO';
+
+import type { List } from './api/types';
+
+// Types
+export type ExportFormat = 'csv' | 'json' | 'letterboxd';
+
+type ExportFile = {
+  fileName: string;
+  mimeType: string;
+  content: string;
+};
+
+// Helpers
+const csvCell = (value?: string | number | null) => {
+  const text = value === null || value === undefined ? '' : value.toString();
+
+  // Quote anything that would otherwise break the row
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const csvRows = (rows: (string | number | null | undefined)[][]) => {
+  return rows.map((row) => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+};
+
+const sortedItems = (list: List) => [...(list.items ?? [])].sort((a, b) => a.position - b.position);
+
+const formatCsv = (lists: List[]) => {
+  const header = [
+    'List',
+    'Position',
+    'Type',
+    'TMDB ID',
+    'Title',
+    'Subtitle',
+    'Release Date',
+    'Status',
+    'Watched Date',
+    'Rating',
+    'Note',
+    'Added',
+  ];
+
+  const rows = lists.flatMap((list) =>
+    sortedItems(list).map((item) => [
+      list.name,
+      item.position + 1,
+      item.mediaType.toLowerCase(),
+      item.tmdbId,
+      item.title,
+      item.subtitle,
+      item.releaseDate,
+      item.status,
+      item.watchedAt,
+      item.rating,
+      item.note,
+      item.createdAt,
+    ])
+  );
+
+  return csvRows([header, ...rows]);
+};
+
+const formatLetterboxd = (lists: List[]) => {
+  // Letterboxd only knows about films, and matches most reliably on the TMDB id
+  const header = ['tmdbID', 'Title', 'Year', 'Rating', 'WatchedDate', 'Review'];
+
+  const rows = lists.flatMap((list) =>
+    sortedItems(list)
+      .filter((item) => item.mediaType === 'MOVIE')
+      .map((item) => [
+        item.tmdbId,
+        item.title,
+        item.releaseDate ? item.releaseDate.slice(0, 4) : undefined,
+        item.rating,
+        item.watchedAt ? format(parseISO(item.watchedAt), 'yyyy-MM-dd') : undefined,
+        item.note,
+      ])
+  );
+
+  return csvRows([header, ...rows]);
+};
+
+export const formatExport = (
+  exported: List | List[],
+  exportFormat: ExportFormat,
+  name: string
+): ExportFile => {
+  const date = format(new Date(), 'yyyy-MM-dd');
+  const lists = Array.isArray(exported) ? exported : [exported];
+
+  switch (exportFormat) {
+    case 'json':
+      return {
+        fileName: `${name}-${date}.json`,
+        mimeType: 'application/json',
+        // A single list exports as a List, everything as a List[]
+        content: JSON.stringify(exported, null, 2),
+      };
+    case 'letterboxd':
+      return {
+        fileName: `${name}-letterboxd-${date}.csv`,
+        mimeType: 'text/csv',
+        content: formatLetterboxd(lists),
+      };
+    default:
+      return {
+        fileName: `${name}-${date}.csv`,
+        mimeType: 'text/csv',
+        content: formatCsv(lists),
+      };
+  }
+};
+
+export const downloadExport = ({ fileName, mimeType, content }: ExportFile) => {
+  const url = URL.createObjectURL(new Blob([content], { type: `${mimeType};charset=utf-8` }));
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+
+  // Revoking straight away can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
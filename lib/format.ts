@@ -1,4 +1,6 @@
 import type {
+  Cast,
+  Crew,
   MovieResponse,
   MovieResult,
   MovieResultsResponse,
@@ -15,6 +17,7 @@ import parseISO from 'date-fns/parseISO';
 import compareDesc from 'date-fns/compareDesc';
 
 import { formatShortMonthDate } from './dates';
+import type { ListItemStatus } from './api/types';
 
 // Types
 export type ListItem = {
@@ -24,8 +27,29 @@ export type ListItem = {
   poster?: string;
   title: string;
   subTitle?: string;
+  releaseDate?: string;
+  status?: ListItemStatus;
+  watchedAt?: string | null;
+  rating?: number | null;
+  note?: string | null;
 };
 
+export type FilmographyCredit = {
+  item: ListItem;
+  date?: string;
+  popularity: number;
+  departments: string[];
+  roles: string[];
+};
+
+export type CrewDepartment = {
+  department: string;
+  crew: ListItem[];
+};
+
+// Constants
+const departmentOrder = ['Directing', 'Writing', 'Production', 'Editing', 'Camera', 'Sound'];
+
 // Helpers
 export const formatMovie = (movie: MovieResult | MovieResponse): ListItem => {
   const poster = movie.poster_path;
@@ -36,6 +60,7 @@ export const formatMovie = (movie: MovieResult | MovieResponse): ListItem => {
     title: movie.title || 'Unknown title',
     subTitle: formatShortMonthDate(movie.release_date),
     ...(poster && { poster }),
+    ...(movie.release_date && { releaseDate: movie.release_date }),
   };
 };
 
@@ -48,6 +73,7 @@ export const formatTvShow = (tvShow: TvResult | ShowResponse): ListItem => {
     title: tvShow.name || 'Unknown name',
     subTitle: formatShortMonthDate(tvShow.first_air_date),
     ...(poster && { poster }),
+    ...(tvShow.first_air_date && { releaseDate: tvShow.first_air_date }),
   };
 };
 
@@ -160,3 +186,104 @@ export const formatPersonCredits = (data: PersonCombinedCreditsResponse): ListIt
       return item !== undefined;
     });
 };
+
+export const formatCast = (cast: Cast[]): ListItem[] => {
+  return cast.map((result) => ({
+    tmdbId: result.id ?? 0,
+    type: 'person',
+    title: result.name ?? 'Unknown name',
+    subTitle: result.character,
+    poster: result.profile_path ?? undefined,
+  }));
+};
+
+export const formatCrew = (crew: Crew[]): CrewDepartment[] => {
+  const grouped = crew.reduce<Record<string, ListItem[]>>((departments, result) => {
+    const department = result.department || 'Other';
+    const members = departments[department] ?? [];
+    const existing = members.find((member) => member.tmdbId === result.id);
+
+    if (existing) {
+      // The same person can hold several jobs within a department
+      existing.subTitle = [existing.subTitle, result.job].filter(Boolean).join(', ');
+    } else {
+      members.push({
+        tmdbId: result.id ?? 0,
+        type: 'person',
+        title: result.name ?? 'Unknown name',
+        subTitle: result.job,
+        poster: result.profile_path ?? undefined,
+      });
+    }
+
+    return {
+      ...departments,
+      [department]: members,
+    };
+  }, {});
+
+  // Key departments first, then the rest alphabetically
+  return Object.keys(grouped)
+    .sort((a, b) => {
+      const aIndex = departmentOrder.indexOf(a);
+      const bIndex = departmentOrder.indexOf(b);
+
+      if (aIndex !== -1 || bIndex !== -1) {
+        return (aIndex === -1 ? Infinity : aIndex) - (bIndex === -1 ? Infinity : bIndex);
+      }
+
+      return a.localeCompare(b);
+    })
+    .map((department) => ({
+      department,
+      crew: grouped[department],
+    }));
+};
+
+export const formatFilmography = (data: PersonCombinedCreditsResponse): FilmographyCredit[] => {
+  const { cast = [], crew = [] } = data;
+
+  const credits = [
+    ...cast.map((result) => ({ ...result, department: 'Acting', role: result.character })),
+    ...crew.map((result) => ({ ...result, role: result.job })),
+  ];
+
+  // Combine every role a person had on the same title into a single credit
+  return credits.reduce<FilmographyCredit[]>((filmography, result) => {
+    if (result.media_type !== 'movie' && result.media_type !== 'tv') {
+      return filmography;
+    }
+
+    const item =
+      result.media_type === 'movie'
+        ? formatMovie(result as MovieResult)
+        : formatTvShow(result as TvResult);
+
+    const existing = filmography.find(
+      (credit) => credit.item.type === item.type && credit.item.tmdbId === item.tmdbId
+    );
+
+    if (existing) {
+      if (result.department && !existing.departments.includes(result.department)) {
+        existing.departments.push(result.department);
+      }
+
+      if (result.role && !existing.roles.includes(result.role)) {
+        existing.roles.push(result.role);
+      }
+
+      return filmography;
+    }
+
+    return [
+      ...filmography,
+      {
+        item,
+        date: result.release_date || result.first_air_date || undefined,
+        popularity: result.popularity ?? 0,
+        departments: result.department ? [result.department] : [],
+        roles: result.role ? [result.role] : [],
+      },
+    ];
+  }, []);
+};
@@ -0,0 +1,54 @@
+import type { Backdrop, Poster, Profile } from 'moviedb-promise/dist/request-types';
+
+// Types
+export type ImageSize =
+  | 'w92'
+  | 'w220_and_h330_face'
+  | 'w600_and_h900_bestv2'
+  | 'w454_and_h254_bestv2'
+  | 'w533_and_h300_bestv2'
+  | 'w1920_and_h800_multi_faces'
+  | 'original';
+
+export type GalleryImageType = 'poster' | 'backdrop' | 'profile';
+
+export type GalleryImage = {
+  type: GalleryImageType;
+  path: string;
+  width: number;
+  height: number;
+  language: string | null;
+};
+
+type ImagesResponse = {
+  posters?: Poster[];
+  backdrops?: Backdrop[];
+  profiles?: Profile[];
+};
+
+// Constants
+const imageBaseUrl = 'https://www.themoviedb.org/t/p';
+
+// Helpers
+export const imageUrl = (path: string, size: ImageSize) => `${imageBaseUrl}/${size}${path}`;
+
+export const thumbnailSize = (type: GalleryImageType): ImageSize =>
+  type === 'backdrop' ? 'w533_and_h300_bestv2' : 'w220_and_h330_face';
+
+const formatImage =
+  (type: GalleryImageType) =>
+  (image: Backdrop | Poster | Profile): GalleryImage => ({
+    type,
+    path: image.file_path ?? '',
+    width: image.width ?? 0,
+    height: image.height ?? 0,
+    language: image.iso_639_1 ?? null,
+  });
+
+export const formatImages = ({ posters, backdrops, profiles }: ImagesResponse) => {
+  return [
+    ...(posters ?? []).map(formatImage('poster')),
+    ...(backdrops ?? []).map(formatImage('backdrop')),
+    ...(profiles ?? []).map(formatImage('profile')),
+  ].filter((image) => image.path !== '');
+};
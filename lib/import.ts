@@ -0,0 +1,487 @@
+import { getMovie, searchMovie } from './api/movie';
+import { getTvShow, searchTv } from './api/tvShow';
+import { addListItem, rateListItem, updateListItemStatus } from './api/lists';
+import type { ListItem as SavedListItem } from './api/types';
+import {
+  formatMovie,
+  formatSearchMovie,
+  formatSearchTvShow,
+  formatTvShow,
+  ListItem,
+} from './format';
+
+// Types
+export type ImportSource = 'letterboxd' | 'imdb' | 'trakt';
+
+export type ImportRow = {
+  key: string;
+  mediaType: 'movie' | 'tv';
+  title: string;
+  year?: number;
+  tmdbId?: number;
+  rating?: number;
+  watchedAt?: string;
+};
+
+export type ImportMatchStatus = 'matched' | 'ambiguous' | 'unmatched';
+
+export type ImportMatch = {
+  row: ImportRow;
+  status: ImportMatchStatus;
+  candidates: ListItem[];
+  selectedId?: number;
+};
+
+export type ParsedImport = {
+  source: ImportSource;
+  rows: ImportRow[];
+  skipped: number;
+};
+
+type ImportMatchesArgs = {
+  listSlug: string;
+  matches: ImportMatch[];
+  onItem: (item: SavedListItem) => void;
+  onRated: (items: SavedListItem[]) => void;
+  onProgress: (completed: number) => void;
+};
+
+type TraktMedia = {
+  title?: string;
+  year?: number | null;
+  ids?: {
+    tmdb?: number | null;
+  };
+};
+
+type TraktEntry = {
+  type?: string;
+  movie?: TraktMedia;
+  show?: TraktMedia;
+  rating?: number;
+  watched_at?: string;
+  last_watched_at?: string;
+};
+
+// Constants
+const matchConcurrency = 4;
+const maxCandidates = 5;
+
+// Parsing
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  // Strip the byte order mark some exports start with
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let index = 0; index < input.length; index++) {
+    const char = input[index];
+
+    if (quoted) {
+      if (char === '"' && input[index + 1] === '"') {
+        cell += '"';
+        index++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[index + 1] === '\n') {
+        index++;
+      }
+
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter((cells) => cells.some((value) => value.trim() !== ''));
+};
+
+const toRecords = (rows: string[][], headerIndex: number) => {
+  const header = rows[headerIndex].map((name) => name.trim());
+
+  return rows
+    .slice(headerIndex + 1)
+    .map((cells) =>
+      header.reduce<Record<string, string>>(
+        (record, name, index) => ({ ...record, [name]: (cells[index] ?? '').trim() }),
+        {}
+      )
+    );
+};
+
+const parseYear = (value?: string | number | null) => {
+  const year = typeof value === 'number' ? value : parseInt(value ?? '');
+
+  return isNaN(year) ? undefined : year;
+};
+
+const parseDate = (value?: string) => {
+  if (!value) {
+    return undefined;
+  }
+
+  const date = new Date(value);
+
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+};
+
+const parseRating = (value: string | number | undefined, outOf: 5 | 10) => {
+  const rating = typeof value === 'number' ? value : parseFloat(value ?? '');
+
+  if (isNaN(rating) || rating <= 0) {
+    return undefined;
+  }
+
+  // Ratings are stored as half stars out of 5
+  return outOf === 10 ? Math.round(rating) / 2 : Math.round(rating * 2) / 2;
+};
+
+const rowKey = (mediaType: ImportRow['mediaType'], title: string, year?: number) =>
+  `${mediaType}-${title.toLowerCase()}-${year ?? ''}`;
+
+const parseLetterboxd = (rows: string[][], fileName: string): ParsedImport => {
+  // List exports start with a few lines of list details before the items
+  const headerIndex = rows.findIndex((cells) => cells.includes('Name') && cells.includes('Year'));
+
+  if (headerIndex === -1) {
+    throw new Error('This does not look like a Letterboxd export');
+  }
+
+  // The date column is when the title was added in a watchlist, not when it was watched
+  const isWatchlist = fileName.toLowerCase().includes('watchlist');
+
+  let skipped = 0;
+
+  const importRows = toRecords(rows, headerIndex).reduce<ImportRow[]>((all, record) => {
+    if (!record['Name']) {
+      skipped++;
+      return all;
+    }
+
+    const year = parseYear(record['Year']);
+
+    return [
+      ...all,
+      {
+        key: rowKey('movie', record['Name'], year),
+        mediaType: 'movie',
+        title: record['Name'],
+        year,
+        rating: parseRating(record['Rating'], 5),
+        watchedAt: isWatchlist ? undefined : parseDate(record['Watched Date'] || record['Date']),
+      },
+    ];
+  }, []);
+
+  return { source: 'letterboxd', rows: importRows, skipped };
+};
+
+const parseImdb = (rows: string[][]): ParsedImport => {
+  let skipped = 0;
+
+  const importRows = toRecords(rows, 0).reduce<ImportRow[]>((all, record) => {
+    const titleType = record['Title Type'];
+
+    // Episodes, games etc. can't be added to lists
+    const mediaType =
+      titleType === 'tvSeries' || titleType === 'tvMiniSeries'
+        ? 'tv'
+        : titleType === 'tvEpisode' || titleType === 'videoGame' || !record['Title']
+        ? undefined
+        : 'movie';
+
+    if (!mediaType) {
+      skipped++;
+      return all;
+    }
+
+    const year = parseYear(record['Year']);
+
+    return [
+      ...all,
+      {
+        key: rowKey(mediaType, record['Title'], year),
+        mediaType,
+        title: record['Title'],
+        year,
+        rating: parseRating(record['Your Rating'], 10),
+        watchedAt: parseDate(record['Date Rated']),
+      },
+    ];
+  }, []);
+
+  return { source: 'imdb', rows: importRows, skipped };
+};
+
+const parseTrakt = (text: string): ParsedImport => {
+  let entries: TraktEntry[];
+
+  try {
+    entries = JSON.parse(text);
+  } catch (error) {
+    throw new Error('This does not look like a Trakt export');
+  }
+
+  if (!Array.isArray(entries)) {
+    throw new Error('This does not look like a Trakt export');
+  }
+
+  let skipped = 0;
+
+  const importRows = entries.reduce<ImportRow[]>((all, entry) => {
+    // Season and episode entries also carry the show, but only whole titles can be added
+    const isEpisode = entry.type === 'episode' || entry.type === 'season';
+    const media = entry.movie ?? (!isEpisode ? entry.show : undefined);
+    const mediaType = entry.movie ? 'movie' : 'tv';
+
+    if (!media || !media.title) {
+      skipped++;
+      return all;
+    }
+
+    const year = parseYear(media.year);
+
+    return [
+      ...all,
+      {
+        key: rowKey(mediaType, media.title, year),
+        mediaType,
+        title: media.title,
+        year,
+        tmdbId: media.ids?.tmdb ?? undefined,
+        rating: parseRating(entry.rating, 10),
+        watchedAt: parseDate(entry.watched_at ?? entry.last_watched_at),
+      },
+    ];
+  }, []);
+
+  return { source: 'trakt', rows: importRows, skipped };
+};
+
+const mergeRows = (rows: ImportRow[]) => {
+  // Diaries and histories list rewatches separately, keep a single row with the latest details
+  return rows.reduce<ImportRow[]>((all, row) => {
+    const existing = all.find((other) => other.key === row.key);
+
+    if (!existing) {
+      return [...all, row];
+    }
+
+    const isNewer = !!row.watchedAt && (!existing.watchedAt || row.watchedAt > existing.watchedAt);
+
+    return all.map((other) =>
+      other === existing
+        ? {
+            ...existing,
+            tmdbId: existing.tmdbId ?? row.tmdbId,
+            rating: isNewer ? row.rating ?? existing.rating : existing.rating ?? row.rating,
+            watchedAt: isNewer ? row.watchedAt : existing.watchedAt,
+          }
+        : other
+    );
+  }, []);
+};
+
+export const parseImportFile = (text: string, fileName: string): ParsedImport => {
+  let parsed: ParsedImport;
+
+  if (fileName.toLowerCase().endsWith('.json') || text.trim().startsWith('[')) {
+    parsed = parseTrakt(text);
+  } else {
+    const rows = parseCsv(text);
+
+    if (rows.length === 0) {
+      throw new Error('This file is empty');
+    }
+
+    if (rows[0].includes('Const') && rows[0].includes('Title Type')) {
+      parsed = parseImdb(rows);
+    } else {
+      parsed = parseLetterboxd(rows, fileName);
+    }
+  }
+
+  return { ...parsed, rows: mergeRows(parsed.rows) };
+};
+
+// Matching
+const matchYear = (item: ListItem, year?: number) =>
+  !!year && !!item.releaseDate && parseInt(item.releaseDate.slice(0, 4)) === year;
+
+const matchTitle = (item: ListItem, title: string) =>
+  item.title.toLowerCase() === title.toLowerCase();
+
+export const matchImportRow = async (row: ImportRow): Promise<ImportMatch> => {
+  try {
+    // Trakt exports already know the TMDB id
+    if (row.tmdbId) {
+      const item =
+        row.mediaType === 'movie'
+          ? formatMovie(await getMovie({ id: row.tmdbId }))
+          : formatTvShow(await getTvShow({ id: row.tmdbId }));
+
+      return { row, status: 'matched', candidates: [item], selectedId: item.tmdbId };
+    }
+
+    const results =
+      row.mediaType === 'movie'
+        ? formatSearchMovie(await searchMovie({ query: row.title, page: 1 }))
+        : formatSearchTvShow(await searchTv({ query: row.title, page: 1 }));
+
+    // Search results are a bit loose, favour the right year then the exact title
+    const score = (item: ListItem) =>
+      (matchYear(item, row.year) ? 2 : 0) + (matchTitle(item, row.title) ? 1 : 0);
+
+    const candidates = results
+      .map((item, index) => ({ item, index, score: score(item) }))
+      .sort((a, b) => b.score - a.score || a.index - b.index)
+      .slice(0, maxCandidates)
+      .map(({ item }) => item);
+
+    if (candidates.length === 0) {
+      return { row, status: 'unmatched', candidates };
+    }
+
+    // Only pick one automatically when it's the single best fit for the year, or title if undated
+    const best = candidates.filter((item) => score(item) === score(candidates[0]));
+    const isConfident =
+      best.length === 1 &&
+      (row.year ? matchYear(best[0], row.year) : matchTitle(best[0], row.title));
+
+    return isConfident
+      ? { row, status: 'matched', candidates, selectedId: best[0].tmdbId }
+      : { row, status: 'ambiguous', candidates };
+  } catch (error) {
+    return { row, status: 'unmatched', candidates: [] };
+  }
+};
+
+export const matchImportRows = async (
+  rows: ImportRow[],
+  onProgress?: (completed: number) => void
+) => {
+  const matches: ImportMatch[] = [];
+
+  let nextIndex = 0;
+  let completed = 0;
+
+  // Keep a few requests in flight rather than firing hundreds at once
+  const worker = async () => {
+    while (nextIndex < rows.length) {
+      const index = nextIndex++;
+
+      matches[index] = await matchImportRow(rows[index]);
+
+      completed++;
+      onProgress && onProgress(completed);
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(matchConcurrency, rows.length) }, () => worker())
+  );
+
+  return matches;
+};
+
+// Importing
+export const importMatches = async ({
+  listSlug,
+  matches,
+  onItem,
+  onRated,
+  onProgress,
+}: ImportMatchesArgs) => {
+  let added = 0;
+  let failed = 0;
+  let statusFailed = 0;
+  let ratingFailed = 0;
+
+  // One at a time, so the list keeps the order of the file
+  for (const match of matches) {
+    const item = match.candidates.find((candidate) => candidate.tmdbId === match.selectedId);
+
+    if (!item) {
+      continue;
+    }
+
+    let listItem: SavedListItem;
+
+    try {
+      listItem = await addListItem({
+        listSlug,
+        mediaType: item.type.toUpperCase(),
+        tmdbId: item.tmdbId,
+        title: item.title,
+        subtitle: item.subTitle,
+        posterUrl: item.poster,
+        releaseDate: item.releaseDate,
+      });
+    } catch (error) {
+      // Most likely already in the list
+      failed++;
+      onProgress(added + failed);
+
+      continue;
+    }
+
+    if (match.row.watchedAt) {
+      // The title is in the list either way, a failed status update shouldn't lose it
+      try {
+        listItem = await updateListItemStatus({
+          listSlug,
+          listItemId: listItem.id,
+          status: 'watched',
+          watchedAt: match.row.watchedAt,
+        });
+      } catch (error) {
+        statusFailed++;
+      }
+    }
+
+    onItem(listItem);
+    added++;
+
+    if (match.row.rating && listItem.mediaType !== 'PERSON') {
+      // A failed rating shouldn't count against the title itself
+      try {
+        onRated(
+          await rateListItem({
+            mediaType: listItem.mediaType,
+            tmdbId: listItem.tmdbId,
+            rating: match.row.rating,
+            note: listItem.note,
+          })
+        );
+      } catch (error) {
+        ratingFailed++;
+      }
+    }
+
+    onProgress(added + failed);
+  }
+
+  return { added, failed, statusFailed, ratingFailed };
+};
@@ -0,0 +1,23 @@
+// Types
+export type PasswordRule = {
+  label: string;
+  test: (password: string) => boolean;
+};
+
+// Constants
+export const passwordRules: PasswordRule[] = [
+  { label: 'At least 10 characters', test: (password) => password.length >= 10 },
+  {
+    label: 'Upper and lower case letters',
+    test: (password) => /[a-z]/.test(password) && /[A-Z]/.test(password),
+  },
+  { label: 'At least one number', test: (password) => /[0-9]/.test(password) },
+  { label: 'At least one symbol', test: (password) => /[^A-Za-z0-9]/.test(password) },
+];
+
+// Helpers
+export const checkPassword = (password: string) =>
+  passwordRules.map((rule) => ({ label: rule.label, passed: rule.test(password) }));
+
+export const isStrongPassword = (password: string) =>
+  passwordRules.every((rule) => rule.test(password));
@@ -0,0 +1,154 @@
+import parseISO from 'date-fns/parseISO';
+import compareDesc from 'date-fns/compareDesc';
+import type { MovieResult, TvResult } from 'moviedb-promise/dist/request-types';
+
+import { getMovie, getMovieRecommendations } from './api/movie';
+import { getTvRecommendations, getTvShow } from './api/tvShow';
+import type { List, ListItem as SavedListItem } from './api/types';
+import { formatMovie, formatTvShow, ListItem } from './format';
+
+// Types
+export type Suggestion = {
+  item: ListItem;
+  score: number;
+  because: string[];
+};
+
+type Candidate = {
+  result: MovieResult | TvResult;
+  type: 'movie' | 'tv';
+  because: string[];
+};
+
+type SeedResults = {
+  seed: SavedListItem;
+  genreIds: number[];
+  results: (MovieResult | TvResult)[];
+};
+
+// Constants
+const maxSeeds = 8;
+
+// Genre overlap counts for less than being recommended by another saved title
+const genreWeight = 0.5;
+
+// Helpers
+export const savedKey = (item: { type: string; tmdbId: number }) =>
+  `${item.type.toLowerCase()}-${item.tmdbId}`;
+
+export const getSavedItems = (lists: List[]) => {
+  const saved = lists
+    .flatMap((list) => list.items ?? [])
+    .filter((item) => item.mediaType !== 'PERSON');
+
+  const keys = saved.map((item) => savedKey({ type: item.mediaType, tmdbId: item.tmdbId }));
+
+  // The same title can be saved in several lists
+  return saved.filter((item, index) => keys.indexOf(keys[index]) === index);
+};
+
+export const pickSeeds = (lists: List[]) => {
+  // Favour what the user rated highly, then what they saved most recently
+  return getSavedItems(lists)
+    .filter((item) => item.status !== 'abandoned')
+    .sort(
+      (a, b) =>
+        (b.rating ?? 0) - (a.rating ?? 0) ||
+        compareDesc(parseISO(a.createdAt), parseISO(b.createdAt))
+    )
+    .slice(0, maxSeeds);
+};
+
+const fetchSeed = async (seed: SavedListItem): Promise<SeedResults | undefined> => {
+  try {
+    if (seed.mediaType === 'MOVIE') {
+      const [details, recommendations] = await Promise.all([
+        getMovie({ id: seed.tmdbId }),
+        getMovieRecommendations({ id: seed.tmdbId }),
+      ]);
+
+      return {
+        seed,
+        genreIds: (details.genres ?? []).map((genre) => genre.id ?? 0),
+        results: (recommendations.results ?? []).map((result) => ({
+          ...result,
+          media_type: 'movie',
+        })),
+      };
+    }
+
+    const [details, recommendations] = await Promise.all([
+      getTvShow({ id: seed.tmdbId }),
+      getTvRecommendations({ id: seed.tmdbId }),
+    ]);
+
+    return {
+      seed,
+      genreIds: (details.genres ?? []).map((genre) => genre.id ?? 0),
+      results: (recommendations.results ?? []).map((result) => ({ ...result, media_type: 'tv' })),
+    };
+  } catch (error) {
+    // One missing title shouldn't sink the whole feed
+    return undefined;
+  }
+};
+
+export const getSuggestions = async (seeds: SavedListItem[]): Promise<Suggestion[]> => {
+  const seedResults = (await Promise.all(seeds.map(fetchSeed))).filter(
+    (seedResult): seedResult is SeedResults => !!seedResult
+  );
+
+  if (seedResults.length === 0) {
+    // Every lookup failing is an outage, not a lack of suggestions
+    if (seeds.length > 0) {
+      throw new Error('Unable to load suggestions');
+    }
+
+    return [];
+  }
+
+  // How often each genre turns up in what the user saved
+  const genreCounts = seedResults
+    .flatMap(({ genreIds }) => genreIds)
+    .reduce<Record<number, number>>(
+      (counts, genreId) => ({ ...counts, [genreId]: (counts[genreId] ?? 0) + 1 }),
+      {}
+    );
+
+  // Gather every recommendation, remembering which saved titles led to it
+  const candidates = seedResults.reduce<Record<string, Candidate>>(
+    (all, { seed, results }) =>
+      results.reduce((current, result) => {
+        const type = result.media_type;
+        const key = savedKey({ type, tmdbId: result.id ?? 0 });
+        const existing = current[key];
+
+        return {
+          ...current,
+          [key]: existing
+            ? { ...existing, because: [...existing.because, seed.title] }
+            : { result, type, because: [seed.title] },
+        };
+      }, all),
+    {}
+  );
+
+  return Object.values(candidates)
+    .map(({ result, type, because }) => {
+      const genreOverlap =
+        (result.genre_ids ?? []).reduce(
+          (total, genreId) => total + (genreCounts[genreId] ?? 0),
+          0
+        ) / seedResults.length;
+
+      return {
+        item:
+          type === 'movie' ? formatMovie(result as MovieResult) : formatTvShow(result as TvResult),
+        score: because.length + genreOverlap * genreWeight,
+        because,
+        popularity: result.popularity ?? 0,
+      };
+    })
+    .sort((a, b) => b.score - a.score || b.popularity - a.popularity)
+    .map(({ item, score, because }) => ({ item, score, because }));
+};
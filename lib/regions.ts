@@ -0,0 +1,32 @@
+import type { AuthUser } from './api/auth';
+
+// Constants
+export const defaultRegion = 'US';
+
+// Helpers
+export const regionName = (code: string) => {
+  try {
+    return new Intl.DisplayNames(['en'], { type: 'region' }).of(code) ?? code;
+  } catch (error) {
+    return code;
+  }
+};
+
+export const regionFromAcceptLanguage = (acceptLanguage?: string) => {
+  // e.g. "en-GB,en;q=0.9,fr;q=0.8", in order of preference
+  const region = (acceptLanguage ?? '')
+    .split(',')
+    .map((language) => language.split(';')[0].trim().split('-')[1])
+    .find((region) => region && /^[a-z]{2}$/i.test(region));
+
+  return region ? region.toUpperCase() : defaultRegion;
+};
+
+export const resolveRegion = (user: AuthUser, acceptLanguage?: string) => {
+  // A saved preference always beats what the browser says
+  if (user.auth && user.user.region) {
+    return user.user.region;
+  }
+
+  return regionFromAcceptLanguage(acceptLanguage);
+};
@@ -0,0 +1,68 @@
+import type { MovieReleaseDatesResponse, ReleaseDate } from 'moviedb-promise/dist/request-types';
+import parseISO from 'date-fns/parseISO';
+import compareAsc from 'date-fns/compareAsc';
+
+import { regionName } from './regions';
+
+// Types
+export type CountryRelease = {
+  region: string;
+  name: string;
+  certification?: string;
+  theatrical?: string;
+  digital?: string;
+  physical?: string;
+};
+
+// Constants
+// See https://developers.themoviedb.org/3/movies/get-movie-release-dates
+const releaseTypes = {
+  premiere: 1,
+  limited: 2,
+  theatrical: 3,
+  digital: 4,
+  physical: 5,
+  tv: 6,
+};
+
+// Helpers
+const earliest = (dates: ReleaseDate[], types: number[]) => {
+  return (
+    dates
+      .filter((date) => date.release_date && date.type && types.includes(date.type))
+      // Full UTC timestamps, only the calendar date is meaningful and it mustn't shift by time zone
+      .map((date) => (date.release_date as string).slice(0, 10))
+      .sort((a, b) => compareAsc(parseISO(a), parseISO(b)))[0]
+  );
+};
+
+const pickCertification = (dates: ReleaseDate[]) => {
+  // The wide theatrical release is usually the one that was rated
+  const rated = dates.filter((date) => date.certification);
+
+  return (
+    rated.find((date) => date.type === releaseTypes.theatrical) ??
+    rated.find((date) => date.type !== releaseTypes.premiere) ??
+    rated[0]
+  )?.certification;
+};
+
+export const formatReleaseDates = (releaseDates: MovieReleaseDatesResponse): CountryRelease[] => {
+  return (releaseDates.results ?? [])
+    .filter((result) => result.iso_3166_1)
+    .map((result) => {
+      const dates = result.release_dates ?? [];
+      const region = result.iso_3166_1 as string;
+
+      return {
+        region,
+        name: regionName(region),
+        certification: pickCertification(dates),
+        theatrical:
+          earliest(dates, [releaseTypes.theatrical]) ?? earliest(dates, [releaseTypes.limited]),
+        digital: earliest(dates, [releaseTypes.digital]),
+        physical: earliest(dates, [releaseTypes.physical]),
+      };
+    })
+    .sort((a, b) => a.name.localeCompare(b.name));
+};
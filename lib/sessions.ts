@@ -0,0 +1,33 @@
+// Constants
+// Order matters, e.g. Edge and Opera user agents also mention Chrome
+const browsers: [RegExp, string][] = [
+  [/Edg\//, 'Edge'],
+  [/OPR\/|Opera/, 'Opera'],
+  [/Firefox\/|FxiOS/, 'Firefox'],
+  [/Chrome\/|CriOS/, 'Chrome'],
+  [/Safari\//, 'Safari'],
+];
+
+const systems: [RegExp, string][] = [
+  [/iPhone|iPad|iPod/, 'iOS'],
+  [/Android/, 'Android'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/Windows/, 'Windows'],
+  [/CrOS/, 'ChromeOS'],
+  [/Linux/, 'Linux'],
+];
+
+// Helpers
+export const describeDevice = (userAgent: string | null) => {
+  if (!userAgent) {
+    return 'Unknown device';
+  }
+
+  const browser = browsers.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const system = systems.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+  return browser && system ? `${browser} on ${system}` : browser ?? system ?? 'Unknown device';
+};
+
+export const isMobileDevice = (userAgent: string | null) =>
+  !!userAgent && /Mobi|Android|iPhone|iPad|iPod/.test(userAgent);
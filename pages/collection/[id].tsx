@@ -0,0 +1,289 @@
+import { GetServerSideProps, InferGetServerSidePropsType, NextPage } from 'next';
+import { useState } from 'react';
+import Head from 'next/head';
+import Image from 'next/image';
+import type { CollectionInfoResponse, MovieResult } from 'moviedb-promise/dist/request-types';
+import parseISO from 'date-fns/parseISO';
+import compareAsc from 'date-fns/compareAsc';
+import { ClockIcon, FilmIcon, PlusSmIcon } from '@heroicons/react/solid';
+
+import DetailsLayout from '../../components/layouts/Details';
+import Rating from '../../components/assets/Rating';
+import Notification, { NotificationProps } from '../../components/assets/Notification';
+import ListItem from '../../components/lists/ListItem';
+import AddCollection from '../../components/lists/AddCollection';
+
+import { getCollection } from '../../lib/api/collection';
+import { getMovie } from '../../lib/api/movie';
+import { formatRuntime } from '../../lib/dates';
+import { formatMovie } from '../../lib/format';
+import { imageUrl } from '../../lib/images';
+import { AuthUser, authUser } from '../../lib/api/auth';
+
+// Types
+type ServerSideResponse = {
+  user: AuthUser;
+  collection: CollectionInfoResponse;
+  runtime: number | null;
+};
+
+type NotificationType = Omit<NotificationProps, 'onClose'>;
+
+// Constants
+const runtimeConcurrency = 4;
+
+// Helpers
+const totalRuntime = async (ids: number[]) => {
+  let total = 0;
+  let failed = false;
+  let nextIndex = 0;
+
+  // Keep a few requests in flight rather than one per film at once
+  const worker = async () => {
+    while (nextIndex < ids.length) {
+      const id = ids[nextIndex++];
+
+      try {
+        const movie = await getMovie({ id });
+
+        total += movie.runtime ?? 0;
+      } catch (error) {
+        failed = true;
+      }
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(runtimeConcurrency, ids.length) }, () => worker())
+  );
+
+  // A total missing some films would be wrong, so show none at all
+  return failed ? undefined : total;
+};
+
+// SSR
+export const getServerSideProps: GetServerSideProps<ServerSideResponse> = async ({
+  req,
+  query,
+}) => {
+  // Validate params
+  if (!query.id) {
+    return {
+      redirect: {
+        destination: '/',
+        permanent: false,
+      },
+    };
+  }
+
+  const collectionId = parseInt(query.id.toString());
+
+  // Get the collection
+  let collection: CollectionInfoResponse;
+
+  try {
+    collection = await getCollection({ id: collectionId });
+  } catch (error) {
+    return {
+      redirect: {
+        destination: '/',
+        permanent: false,
+      },
+    };
+  }
+
+  if (!collection.id) {
+    return {
+      redirect: {
+        destination: '/',
+        permanent: false,
+      },
+    };
+  }
+
+  // Parts don't include a runtime, so add up each film's own
+  const runtime =
+    (await totalRuntime(
+      (collection.parts ?? []).map((part) => part.id).filter((id): id is number => !!id)
+    )) || null;
+
+  // Current user
+  let user: AuthUser;
+
+  try {
+    user = await authUser({ cookie: req.headers.cookie ?? '' });
+  } catch (error) {
+    user = { auth: false };
+  }
+
+  // Return it all!
+  return {
+    props: {
+      user,
+      collection,
+      runtime,
+    },
+  };
+};
+
+// Component
+const Collection: NextPage<InferGetServerSidePropsType<typeof getServerSideProps>> = ({
+  collection,
+  runtime,
+}) => {
+  // Local state
+  const [showAdd, setShowAdd] = useState(false);
+  const [notification, setNotification] = useState<NotificationType | undefined>(undefined);
+
+  // Derived state
+  const parts = (collection.parts ?? []).slice().sort((a, b) =>
+    // Unreleased films without a date go last
+    a.release_date && b.release_date
+      ? compareAsc(parseISO(a.release_date), parseISO(b.release_date))
+      : a.release_date
+      ? -1
+      : b.release_date
+      ? 1
+      : 0
+  );
+
+  const items = parts.map((part) => formatMovie(part as MovieResult));
+
+  const rated = parts.filter((part) => part.vote_count && part.vote_average);
+  const averageRating =
+    rated.length > 0
+      ? Math.round(
+          (rated.reduce((total, part) => total + (part.vote_average ?? 0), 0) / rated.length) * 10
+        ) / 10
+      : undefined;
+
+  // Handlers
+  const handleComplete = (added: number, skipped: number, failed: number) => {
+    const details = [
+      skipped > 0 ? `${skipped} were already in the list` : undefined,
+      failed > 0 ? `${failed} could not be added, please try again` : undefined,
+    ].filter((detail) => detail);
+
+    setShowAdd(false);
+    setNotification({
+      type: failed > 0 ? 'warn' : added > 0 ? 'success' : 'info',
+      title:
+        added > 0
+          ? `Added ${added} ${added === 1 ? 'film' : 'films'} to list`
+          : failed > 0
+          ? 'Unable to add films to list'
+          : 'Nothing new to add',
+      description: details.length > 0 ? details.join(', ') : undefined,
+      visible: true,
+    });
+  };
+
+  // Render
+  return (
+    <DetailsLayout>
+      <Head>
+        <title>{collection.name} • Movies</title>
+      </Head>
+
+      <div
+        className="bg-cover bg-right-top bg-no-repeat sm:bg-[right_-200px_top]"
+        style={{
+          backgroundImage: collection.backdrop_path
+            ? `url(${imageUrl(collection.backdrop_path, 'w1920_and_h800_multi_faces')})`
+            : undefined,
+        }}
+      >
+        <div className="bg-theme-movie">
+          <div className="mx-auto max-w-7xl items-center px-4 py-8 sm:flex sm:px-6 lg:px-8">
+            <div className="flex-none self-start sm:w-[300px]">
+              <div className="aspect-w-2 aspect-h-3 overflow-hidden rounded-lg">
+                {collection.poster_path ? (
+                  <Image
+                    src={imageUrl(collection.poster_path, 'w600_and_h900_bestv2')}
+                    alt={collection.name}
+                    layout="fill"
+                    className="object-cover"
+                  />
+                ) : (
+                  <div className="bg-gray-100" />
+                )}
+              </div>
+            </div>
+
+            <div className="mt-6 sm:mt-0 sm:ml-10">
+              <h2 className="text-2xl font-bold leading-7 text-white sm:text-3xl">
+                {collection.name}
+              </h2>
+
+              <div className="mt-1 flex flex-col sm:mt-0 sm:flex-row sm:flex-wrap sm:space-x-6">
+                <div className="mt-2 flex items-center text-sm font-light text-gray-200">
+                  <FilmIcon className="mr-1.5 h-5 w-5 flex-shrink-0 text-gray-300" />
+                  {parts.length} {parts.length === 1 ? `film` : `films`}
+                </div>
+
+                {runtime ? (
+                  <div className="mt-2 flex items-center text-sm font-light text-gray-200">
+                    <ClockIcon className="mr-1.5 h-5 w-5 flex-shrink-0 text-gray-300" />
+                    {formatRuntime(runtime)} in total
+                  </div>
+                ) : null}
+              </div>
+
+              <div className="mt-6 flex items-center space-x-6">
+                {averageRating ? <Rating rating={averageRating} /> : null}
+
+                <button
+                  type="button"
+                  className="inline-flex items-center rounded-md border border-transparent bg-blue-100 py-2 pl-4 pr-5 text-sm font-medium text-blue-700 shadow-sm hover:bg-blue-200 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 focus:ring-offset-blue-700"
+                  onClick={() => setShowAdd(true)}
+                >
+                  <PlusSmIcon className="mr-2 -ml-1 h-5 w-5" />
+                  Add whole collection to list
+                </button>
+              </div>
+
+              <div className="mt-6">
+                <p className="font-light leading-7 text-gray-200">{collection.overview}</p>
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="mx-auto mt-12 max-w-7xl px-4 sm:px-6 lg:px-8">
+        <div className="border-b border-gray-200 pb-5">
+          <h3 className="text-lg font-medium leading-6 text-gray-900">In release order</h3>
+        </div>
+
+        <ul className="mt-8 grid grid-cols-2 gap-x-4 gap-y-8 sm:grid-cols-4 lg:grid-cols-6">
+          {items.map((item) => (
+            <li key={item.tmdbId} className="relative">
+              <ListItem item={item} action="add" />
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      <AddCollection
+        name={collection.name ?? 'Collection'}
+        items={items}
+        visible={showAdd}
+        onClose={() => setShowAdd(false)}
+        onComplete={handleComplete}
+      />
+
+      {notification ? (
+        <Notification
+          {...notification}
+          onClose={() =>
+            setNotification((notification) =>
+              notification ? { ...notification, visible: false } : undefined
+            )
+          }
+        />
+      ) : null}
+    </DetailsLayout>
+  );
+};
+
+export default Collection;
@@ -0,0 +1,125 @@
+import { GetServerSideProps, InferGetServerSidePropsType, NextPage } from 'next';
+import Head from 'next/head';
+import type {
+  Company as CompanyResponse,
+  DiscoverMovieResponse,
+  DiscoverTvResponse,
+} from 'moviedb-promise/dist/request-types';
+
+import DetailsLayout from '../../components/layouts/Details';
+import Browse from '../../components/browse/Browse';
+
+import { getCompany } from '../../lib/api/browse';
+import { browse, BrowseMedia, BrowseQuery, parseBrowseQuery } from '../../lib/browse';
+import { AuthUser, authUser } from '../../lib/api/auth';
+
+// Types
+type ServerSideResponse = {
+  user: AuthUser;
+  company: CompanyResponse;
+  query: BrowseQuery;
+  results: DiscoverMovieResponse | DiscoverTvResponse | null;
+};
+
+// Constants
+const media: BrowseMedia[] = ['movie', 'tv'];
+
+// SSR
+export const getServerSideProps: GetServerSideProps<ServerSideResponse> = async ({
+  req,
+  query,
+}) => {
+  // Validate params
+  const browseQuery = parseBrowseQuery(query, media);
+
+  if (!browseQuery) {
+    return {
+      redirect: {
+        destination: '/',
+        permanent: false,
+      },
+    };
+  }
+
+  // Get the company
+  let company: CompanyResponse;
+
+  try {
+    company = await getCompany({ id: browseQuery.id });
+  } catch (error) {
+    return {
+      redirect: {
+        destination: '/',
+        permanent: false,
+      },
+    };
+  }
+
+  if (!company.id) {
+    return {
+      redirect: {
+        destination: '/',
+        permanent: false,
+      },
+    };
+  }
+
+  // Get the titles
+  let results: DiscoverMovieResponse | DiscoverTvResponse | null;
+
+  try {
+    results = await browse({
+      ...browseQuery,
+      filter: { with_companies: browseQuery.id.toString() },
+    });
+  } catch (error) {
+    results = null;
+  }
+
+  // Current user
+  let user: AuthUser;
+
+  try {
+    user = await authUser({ cookie: req.headers.cookie ?? '' });
+  } catch (error) {
+    user = { auth: false };
+  }
+
+  // Return it all!
+  return {
+    props: {
+      user,
+      company,
+      query: browseQuery,
+      results,
+    },
+  };
+};
+
+// Component
+const Company: NextPage<InferGetServerSidePropsType<typeof getServerSideProps>> = ({
+  company,
+  query,
+  results,
+}) => {
+  // Render
+  return (
+    <DetailsLayout>
+      <Head>
+        <title>{company.name} • Movies</title>
+      </Head>
+
+      <Browse
+        label="Production company"
+        title={company.name ?? 'Unknown company'}
+        logo={company.logo_path}
+        description={company.description}
+        media={media}
+        query={query}
+        results={results}
+      />
+    </DetailsLayout>
+  );
+};
+
+export default Company;
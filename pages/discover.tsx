@@ -0,0 +1,595 @@
+import { useEffect, useState } from 'react';
+import type { GetServerSideProps, InferGetServerSidePropsType, NextPage } from 'next';
+import type { ParsedUrlQuery } from 'querystring';
+import Head from 'next/head';
+import { useRouter } from 'next/router';
+import type {
+  Certification,
+  DiscoverMovieRequest,
+  DiscoverMovieResponse,
+  DiscoverTvRequest,
+  DiscoverTvResponse,
+  GenresResponse,
+} from 'moviedb-promise/dist/request-types';
+
+import DetailsLayout from '../components/layouts/Details';
+import Alert from '../components/assets/Alert';
+import Pagination from '../components/search/Pagination';
+import TabButton from '../components/search/TabButton';
+import ListItem from '../components/lists/ListItem';
+
+import { formatSearchMovie, formatSearchTvShow } from '../lib/format';
+import { discoverMovies, discoverTv, getGenres, getMovieCertifications } from '../lib/api/discover';
+import { AuthUser, authUser } from '../lib/api/auth';
+
+// Types
+type Media = 'movie' | 'tv';
+type Sort = 'popularity' | 'rating' | 'newest' | 'oldest';
+type Genre = NonNullable<GenresResponse['genres']>[number];
+
+type Filters = {
+  media: Media;
+  genres: number[];
+  from: string;
+  to: string;
+  rating: string;
+  votes: string;
+  runtimeMin: string;
+  runtimeMax: string;
+  language: string;
+  certification: string;
+  sort: Sort;
+  page: number;
+};
+
+type ServerSideResponse = {
+  user: AuthUser;
+  results: DiscoverMovieResponse | DiscoverTvResponse | null;
+  genres: Genre[];
+  certifications: Certification[];
+};
+
+// Constants
+const certificationCountry = 'US';
+
+// TMDB won't serve results past this page
+const maxPage = 500;
+
+const languages = [
+  ['en', 'English'],
+  ['ar', 'Arabic'],
+  ['zh', 'Chinese'],
+  ['da', 'Danish'],
+  ['nl', 'Dutch'],
+  ['fr', 'French'],
+  ['de', 'German'],
+  ['hi', 'Hindi'],
+  ['it', 'Italian'],
+  ['ja', 'Japanese'],
+  ['ko', 'Korean'],
+  ['no', 'Norwegian'],
+  ['fa', 'Persian'],
+  ['pl', 'Polish'],
+  ['pt', 'Portuguese'],
+  ['ru', 'Russian'],
+  ['es', 'Spanish'],
+  ['sv', 'Swedish'],
+  ['th', 'Thai'],
+  ['tr', 'Turkish'],
+];
+
+const sortOptions: Record<Media, Record<Sort, string>> = {
+  movie: {
+    popularity: 'popularity.desc',
+    rating: 'vote_average.desc',
+    newest: 'primary_release_date.desc',
+    oldest: 'primary_release_date.asc',
+  },
+  tv: {
+    popularity: 'popularity.desc',
+    rating: 'vote_average.desc',
+    newest: 'first_air_date.desc',
+    oldest: 'first_air_date.asc',
+  },
+};
+
+// Helpers
+const queryNumber = (value?: string | string[]) => {
+  const number = parseInt((value ?? '').toString());
+
+  return isNaN(number) ? '' : number.toString();
+};
+
+const parseFilters = (query: ParsedUrlQuery): Filters => {
+  const sort = (query.sort ?? '').toString();
+
+  return {
+    media: query.media === 'tv' ? 'tv' : 'movie',
+    genres: (query.genres ?? '')
+      .toString()
+      .split(',')
+      .map((id) => parseInt(id))
+      .filter((id) => !isNaN(id)),
+    from: queryNumber(query.from),
+    to: queryNumber(query.to),
+    rating: queryNumber(query.rating),
+    votes: queryNumber(query.votes),
+    runtimeMin: queryNumber(query.runtimeMin),
+    runtimeMax: queryNumber(query.runtimeMax),
+    language: (query.language ?? '').toString(),
+    certification: (query.certification ?? '').toString(),
+    sort: sort in sortOptions.movie ? (sort as Sort) : 'popularity',
+    page: Math.min(Math.max(parseInt(queryNumber(query.page) || '1'), 1), maxPage),
+  };
+};
+
+const buildQuery = (filters: Filters) => {
+  const { genres, page, ...rest } = filters;
+
+  // Only keep what's set, so shared URLs stay short
+  return Object.entries({
+    ...rest,
+    genres: genres.join(','),
+    page: page > 1 ? page.toString() : '',
+  }).reduce<Record<string, string>>(
+    (query, [key, value]) => (value !== '' ? { ...query, [key]: value } : query),
+    {}
+  );
+};
+
+const buildRequest = (filters: Filters): DiscoverMovieRequest & DiscoverTvRequest => {
+  const dateField = filters.media === 'movie' ? 'primary_release_date' : 'first_air_date';
+  const number = (value: string) => (value !== '' ? parseInt(value) : undefined);
+
+  return {
+    page: filters.page,
+    sort_by: sortOptions[filters.media][filters.sort] as DiscoverMovieRequest['sort_by'],
+    with_genres: filters.genres.length > 0 ? filters.genres.join(',') : undefined,
+    [`${dateField}.gte`]: filters.from !== '' ? `${filters.from}-01-01` : undefined,
+    [`${dateField}.lte`]: filters.to !== '' ? `${filters.to}-12-31` : undefined,
+    'vote_average.gte': number(filters.rating),
+    // Top rated is swamped by titles with a handful of votes otherwise
+    'vote_count.gte': number(filters.votes) ?? (filters.sort === 'rating' ? 200 : undefined),
+    'with_runtime.gte': number(filters.runtimeMin),
+    'with_runtime.lte': number(filters.runtimeMax),
+    with_original_language: filters.language || undefined,
+    ...(filters.media === 'movie' &&
+      filters.certification && {
+        certification_country: certificationCountry,
+        certification: filters.certification,
+      }),
+  };
+};
+
+// SSR
+export const getServerSideProps: GetServerSideProps<ServerSideResponse> = async ({
+  req,
+  query,
+}) => {
+  // Current user
+  let user: AuthUser;
+
+  try {
+    user = await authUser({ cookie: req.headers.cookie ?? '' });
+  } catch (error) {
+    user = { auth: false };
+  }
+
+  // Results
+  const filters = parseFilters(query);
+
+  let results: DiscoverMovieResponse | DiscoverTvResponse | null;
+
+  try {
+    results =
+      filters.media === 'movie'
+        ? await discoverMovies(buildRequest(filters))
+        : await discoverTv(buildRequest(filters));
+  } catch (error) {
+    results = null;
+  }
+
+  // Filter options
+  let genres: Genre[];
+
+  try {
+    genres = (await getGenres({ mediaType: filters.media })).genres ?? [];
+  } catch (error) {
+    genres = [];
+  }
+
+  let certifications: Certification[] = [];
+
+  if (filters.media === 'movie') {
+    try {
+      certifications = (
+        (await getMovieCertifications()).certifications?.[certificationCountry] ?? []
+      ).sort((a, b) => (a.order ?? 0) - (b.order ?? 0));
+    } catch (error) {
+      certifications = [];
+    }
+  }
+
+  // Return it all!
+  return {
+    props: {
+      user,
+      results,
+      genres,
+      certifications,
+    },
+  };
+};
+
+// Component
+const Discover: NextPage<InferGetServerSidePropsType<typeof getServerSideProps>> = ({
+  results,
+  genres,
+  certifications,
+}) => {
+  // Hooks
+  const router = useRouter();
+
+  // Derived state
+  const { query } = router;
+  const filters = parseFilters(query);
+
+  const formattedResults = results
+    ? filters.media === 'movie'
+      ? formatSearchMovie(results as DiscoverMovieResponse)
+      : formatSearchTvShow(results as DiscoverTvResponse)
+    : [];
+
+  const totalPages = Math.min(results?.total_pages ?? 0, maxPage);
+
+  // Local state
+  const [draft, setDraft] = useState<Filters>(filters);
+  const [loading, setLoading] = useState(false);
+
+  // Effects
+  useEffect(() => {
+    // Keep the form in step with the URL, e.g. after back/forward
+    setDraft(parseFilters(query));
+  }, [query]);
+
+  useEffect(() => {
+    const handleStart = () => setLoading(true);
+    const handleComplete = () => setLoading(false);
+
+    router.events.on('routeChangeStart', handleStart);
+    router.events.on('routeChangeComplete', handleComplete);
+    router.events.on('routeChangeError', handleComplete);
+
+    return () => {
+      router.events.off('routeChangeStart', handleStart);
+      router.events.off('routeChangeComplete', handleComplete);
+      router.events.off('routeChangeError', handleComplete);
+    };
+  }, [router.events]);
+
+  // Handlers
+  const updateFilters = (newFilters: Filters) => {
+    // Not shallow, so the results are rendered on the server
+    router.push({
+      pathname: router.pathname,
+      query: buildQuery(newFilters),
+    });
+  };
+
+  const handleSubmit = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+
+    updateFilters({ ...draft, page: 1 });
+  };
+
+  const handleReset = () => {
+    updateFilters({ ...parseFilters({}), media: filters.media });
+  };
+
+  const changeMedia = (media: Media) => {
+    // Genre ids and certifications differ between movies and TV
+    updateFilters({ ...filters, media, genres: [], certification: '', page: 1 });
+  };
+
+  const toggleGenre = (genreId: number) => {
+    setDraft((draft) => ({
+      ...draft,
+      genres: draft.genres.includes(genreId)
+        ? draft.genres.filter((id) => id !== genreId)
+        : [...draft.genres, genreId],
+    }));
+  };
+
+  const updateDraft = (key: keyof Omit<Filters, 'media' | 'genres' | 'page'>, value: string) => {
+    setDraft((draft) => ({ ...draft, [key]: value }));
+  };
+
+  // Render
+  return (
+    <DetailsLayout>
+      <Head>
+        <title>Discover • Movies</title>
+      </Head>
+
+      <div className="mx-auto mt-10 max-w-7xl px-4 sm:px-6 lg:px-8">
+        <h2 className="text-3xl font-extrabold text-gray-900">Discover</h2>
+
+        <div className="mt-5 border-b border-gray-200">
+          <nav className="-mb-px flex space-x-8" aria-label="Media type">
+            <TabButton current={filters.media === 'movie'} onClick={() => changeMedia('movie')}>
+              Movies
+            </TabButton>
+
+            <TabButton current={filters.media === 'tv'} onClick={() => changeMedia('tv')}>
+              TV Shows
+            </TabButton>
+          </nav>
+        </div>
+
+        <div className="mt-8 lg:grid lg:grid-cols-4 lg:gap-x-8">
+          <form className="space-y-6" onSubmit={handleSubmit}>
+            {genres.length > 0 ? (
+              <fieldset>
+                <legend className="block text-sm font-medium text-gray-700">Genres</legend>
+                <div className="mt-2 flex flex-wrap gap-2">
+                  {genres.map((genre) => {
+                    const selected = genre.id !== undefined && draft.genres.includes(genre.id);
+
+                    return (
+                      <button
+                        key={genre.id}
+                        type="button"
+                        className={
+                          `rounded-full border px-3 py-1 text-xs font-medium focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2` +
+                          (selected
+                            ? ` border-transparent bg-indigo-600 text-white hover:bg-indigo-700`
+                            : ` border-gray-300 bg-white text-gray-700 hover:bg-gray-50`)
+                        }
+                        aria-pressed={selected}
+                        onClick={() => genre.id !== undefined && toggleGenre(genre.id)}
+                      >
+                        {genre.name}
+                      </button>
+                    );
+                  })}
+                </div>
+              </fieldset>
+            ) : null}
+
+            <fieldset>
+              <legend className="block text-sm font-medium text-gray-700">
+                {filters.media === 'movie' ? `Release year` : `First aired`}
+              </legend>
+              <div className="mt-1 flex items-center space-x-2">
+                <label htmlFor="from" className="sr-only">
+                  From year
+                </label>
+                <input
+                  type="number"
+                  id="from"
+                  name="from"
+                  min={1874}
+                  max={2100}
+                  className="block w-full rounded-md border-gray-300 focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                  placeholder="From"
+                  value={draft.from}
+                  onChange={(event) => updateDraft('from', event.target.value)}
+                />
+                <span className="text-gray-500">&ndash;</span>
+                <label htmlFor="to" className="sr-only">
+                  To year
+                </label>
+                <input
+                  type="number"
+                  id="to"
+                  name="to"
+                  min={1874}
+                  max={2100}
+                  className="block w-full rounded-md border-gray-300 focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                  placeholder="To"
+                  value={draft.to}
+                  onChange={(event) => updateDraft('to', event.target.value)}
+                />
+              </div>
+            </fieldset>
+
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <label htmlFor="rating" className="block text-sm font-medium text-gray-700">
+                  Min. rating
+                </label>
+                <select
+                  id="rating"
+                  name="rating"
+                  className="mt-1 block w-full rounded-md border-gray-300 py-2 pl-3 pr-10 text-base focus:border-indigo-500 focus:outline-none focus:ring-indigo-500 sm:text-sm"
+                  value={draft.rating}
+                  onChange={(event) => updateDraft('rating', event.target.value)}
+                >
+                  <option value="">Any</option>
+                  {[5, 6, 7, 8, 9].map((rating) => (
+                    <option key={rating} value={rating}>
+                      {rating}+
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label htmlFor="votes" className="block text-sm font-medium text-gray-700">
+                  Min. votes
+                </label>
+                <input
+                  type="number"
+                  id="votes"
+                  name="votes"
+                  min={0}
+                  step={50}
+                  className="mt-1 block w-full rounded-md border-gray-300 focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                  placeholder="Any"
+                  value={draft.votes}
+                  onChange={(event) => updateDraft('votes', event.target.value)}
+                />
+              </div>
+            </div>
+
+            <fieldset>
+              <legend className="block text-sm font-medium text-gray-700">Runtime (minutes)</legend>
+              <div className="mt-1 flex items-center space-x-2">
+                <label htmlFor="runtimeMin" className="sr-only">
+                  Minimum runtime
+                </label>
+                <input
+                  type="number"
+                  id="runtimeMin"
+                  name="runtimeMin"
+                  min={0}
+                  step={15}
+                  className="block w-full rounded-md border-gray-300 focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                  placeholder="Min"
+                  value={draft.runtimeMin}
+                  onChange={(event) => updateDraft('runtimeMin', event.target.value)}
+                />
+                <span className="text-gray-500">&ndash;</span>
+                <label htmlFor="runtimeMax" className="sr-only">
+                  Maximum runtime
+                </label>
+                <input
+                  type="number"
+                  id="runtimeMax"
+                  name="runtimeMax"
+                  min={0}
+                  step={15}
+                  className="block w-full rounded-md border-gray-300 focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                  placeholder="Max"
+                  value={draft.runtimeMax}
+                  onChange={(event) => updateDraft('runtimeMax', event.target.value)}
+                />
+              </div>
+            </fieldset>
+
+            <div>
+              <label htmlFor="language" className="block text-sm font-medium text-gray-700">
+                Original language
+              </label>
+              <select
+                id="language"
+                name="language"
+                className="mt-1 block w-full rounded-md border-gray-300 py-2 pl-3 pr-10 text-base focus:border-indigo-500 focus:outline-none focus:ring-indigo-500 sm:text-sm"
+                value={draft.language}
+                onChange={(event) => updateDraft('language', event.target.value)}
+              >
+                <option value="">Any language</option>
+                {languages.map(([code, name]) => (
+                  <option key={code} value={code}>
+                    {name}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {certifications.length > 0 ? (
+              <div>
+                <label htmlFor="certification" className="block text-sm font-medium text-gray-700">
+                  Certification ({certificationCountry})
+                </label>
+                <select
+                  id="certification"
+                  name="certification"
+                  className="mt-1 block w-full rounded-md border-gray-300 py-2 pl-3 pr-10 text-base focus:border-indigo-500 focus:outline-none focus:ring-indigo-500 sm:text-sm"
+                  value={draft.certification}
+                  onChange={(event) => updateDraft('certification', event.target.value)}
+                >
+                  <option value="">Any certification</option>
+                  {certifications.map((certification) => (
+                    <option key={certification.certification} value={certification.certification}>
+                      {certification.certification}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            ) : null}
+
+            <div className="flex space-x-3">
+              <button
+                type="submit"
+                className={
+                  `inline-flex flex-1 items-center justify-center rounded-md border border-transparent bg-indigo-600 px-4 py-2 text-sm font-medium text-white shadow-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2` +
+                  (loading ? ` opacity-75` : ` hover:bg-indigo-700`)
+                }
+                disabled={loading}
+              >
+                {loading ? `Please wait...` : `Apply filters`}
+              </button>
+              <button
+                type="button"
+                className="inline-flex items-center justify-center rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 shadow-sm hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2"
+                onClick={handleReset}
+              >
+                Reset
+              </button>
+            </div>
+          </form>
+
+          <div className="mt-10 lg:col-span-3 lg:mt-0">
+            <div className="flex items-center justify-between border-b border-gray-200 pb-5">
+              <h3 className="text-lg font-medium leading-6 text-gray-900">
+                {results?.total_results ?? 0} {results?.total_results === 1 ? `result` : `results`}
+              </h3>
+
+              <div>
+                <label htmlFor="sort" className="sr-only">
+                  Sort by
+                </label>
+                <select
+                  id="sort"
+                  name="sort"
+                  className="block w-full rounded-md border-gray-300 py-2 pl-3 pr-10 text-base focus:border-indigo-500 focus:outline-none focus:ring-indigo-500 sm:text-sm"
+                  value={filters.sort}
+                  onChange={(event) =>
+                    updateFilters({ ...filters, sort: event.target.value as Sort, page: 1 })
+                  }
+                >
+                  <option value="popularity">Most popular</option>
+                  <option value="rating">Top rated</option>
+                  <option value="newest">Newest first</option>
+                  <option value="oldest">Oldest first</option>
+                </select>
+              </div>
+            </div>
+
+            {!results ? (
+              <div className="mt-8">
+                <Alert type="error" message="Unable to load titles, please try again" />
+              </div>
+            ) : formattedResults.length > 0 ? (
+              <ul
+                className={
+                  `mt-8 grid grid-cols-2 gap-x-4 gap-y-8 sm:grid-cols-3 sm:gap-x-6 lg:grid-cols-4 xl:gap-x-8` +
+                  (loading ? ` opacity-50` : ``)
+                }
+              >
+                {formattedResults.map((result) => (
+                  <li key={result.tmdbId} className="relative">
+                    <ListItem item={result} showType={false} action="add" />
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="mt-8 text-sm text-gray-500">No titles match these filters.</p>
+            )}
+
+            {totalPages > 1 ? (
+              <Pagination
+                currentPage={filters.page}
+                totalPages={totalPages}
+                onChange={(newPage) => updateFilters({ ...filters, page: newPage })}
+              />
+            ) : null}
+          </div>
+        </div>
+      </div>
+    </DetailsLayout>
+  );
+};
+
+export default Discover;
@@ -0,0 +1,134 @@
+import { useState } from 'react';
+import { GetServerSideProps, NextPage } from 'next';
+import Head from 'next/head';
+import Link from 'next/link';
+
+import HomeLayout from '../components/layouts/Home';
+import Alert from '../components/assets/Alert';
+
+import { authUser, requestPasswordReset } from '../lib/api/auth';
+import { ApiError } from '../lib/api';
+
+// SSR
+export const getServerSideProps: GetServerSideProps = async ({ req }) => {
+  // Redirect if we're already logged in
+  try {
+    const user = await authUser({ cookie: req.headers.cookie ?? '' });
+
+    if (user.auth) {
+      return {
+        redirect: {
+          destination: '/',
+          permanent: false,
+        },
+      };
+    }
+  } catch (error) {
+    return { props: {} };
+  }
+
+  return { props: {} };
+};
+
+// Component
+const ForgotPassword: NextPage = () => {
+  // Local state
+  const [email, setEmail] = useState('');
+
+  const [submitLoading, setSubmitLoading] = useState(false);
+  const [sent, setSent] = useState(false);
+  const [error, setError] = useState<string | undefined>(undefined);
+
+  // Handlers
+  const handleSubmit = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+
+    setError(undefined);
+    setSubmitLoading(true);
+
+    requestPasswordReset(email)
+      .then(() => {
+        setSubmitLoading(false);
+        setSent(true);
+      })
+      .catch((error: ApiError) => {
+        setSubmitLoading(false);
+
+        // Don't give away which emails have an account
+        if (error.status === 404) {
+          setSent(true);
+        } else {
+          setError('Unable to send a reset link, please try again');
+        }
+      });
+  };
+
+  // Render
+  return (
+    <HomeLayout>
+      <Head>
+        <title>Forgot password</title>
+      </Head>
+
+      <div className="mx-auto mt-10 max-w-md space-y-8 px-4 sm:px-6">
+        <div>
+          <h2 className="text-center text-3xl font-extrabold text-gray-900">
+            Forgot your password?
+          </h2>
+          <p className="mt-2 text-center text-sm text-gray-600">
+            Enter your email and we&apos;ll send you a link to choose a new one.
+          </p>
+        </div>
+
+        {error ? <Alert type="error" message={error} onClose={() => setError(undefined)} /> : null}
+
+        {sent ? (
+          <Alert
+            type="success"
+            message={`If ${email} has an account, we've sent it a link to reset your password.`}
+          />
+        ) : (
+          <form className="mt-8 space-y-6" onSubmit={handleSubmit}>
+            <div>
+              <label htmlFor="email-address" className="sr-only">
+                Email address
+              </label>
+              <input
+                id="email-address"
+                name="email"
+                type="email"
+                autoComplete="email"
+                required
+                className="relative block w-full appearance-none rounded-md border border-gray-300 px-3 py-2 text-gray-900 placeholder-gray-500 focus:z-10 focus:border-indigo-500 focus:outline-none focus:ring-indigo-500 sm:text-sm"
+                placeholder="Email address"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+              />
+            </div>
+
+            <div>
+              <button
+                type="submit"
+                className={
+                  `group relative flex w-full justify-center rounded-md border border-transparent bg-indigo-600 px-4 py-2 text-sm font-medium text-white focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2` +
+                  (submitLoading ? ` opacity-75` : ` hover:bg-indigo-700`)
+                }
+                disabled={submitLoading}
+              >
+                {submitLoading ? `Please wait...` : `Send reset link`}
+              </button>
+            </div>
+          </form>
+        )}
+
+        <p className="text-center text-sm text-gray-600">
+          <Link href="/sign-in">
+            <a className="font-medium text-indigo-600 hover:text-indigo-500">Back to sign in</a>
+          </Link>
+        </p>
+      </div>
+    </HomeLayout>
+  );
+};
+
+export default ForgotPassword;
@@ -0,0 +1,119 @@
+import { GetServerSideProps, InferGetServerSidePropsType, NextPage } from 'next';
+import Head from 'next/head';
+import type {
+  DiscoverMovieResponse,
+  DiscoverTvResponse,
+  GenresResponse,
+} from 'moviedb-promise/dist/request-types';
+
+import DetailsLayout from '../../components/layouts/Details';
+import Browse from '../../components/browse/Browse';
+
+import { getGenres } from '../../lib/api/discover';
+import { browse, BrowseMedia, BrowseQuery, parseBrowseQuery } from '../../lib/browse';
+import { AuthUser, authUser } from '../../lib/api/auth';
+
+// Types
+type GenreType = NonNullable<GenresResponse['genres']>[number];
+
+type ServerSideResponse = {
+  user: AuthUser;
+  genre: GenreType;
+  query: BrowseQuery;
+  results: DiscoverMovieResponse | DiscoverTvResponse | null;
+};
+
+// Constants
+const media: BrowseMedia[] = ['movie', 'tv'];
+
+// SSR
+export const getServerSideProps: GetServerSideProps<ServerSideResponse> = async ({
+  req,
+  query,
+}) => {
+  // Validate params
+  const browseQuery = parseBrowseQuery(query, media);
+
+  if (!browseQuery) {
+    return {
+      redirect: {
+        destination: '/',
+        permanent: false,
+      },
+    };
+  }
+
+  // Get the genre, ids differ between movies and TV
+  let genre: GenreType | undefined;
+
+  try {
+    genre = (await getGenres({ mediaType: browseQuery.media })).genres?.find(
+      (item) => item.id === browseQuery.id
+    );
+  } catch (error) {
+    genre = undefined;
+  }
+
+  if (!genre) {
+    return {
+      redirect: {
+        destination: '/',
+        permanent: false,
+      },
+    };
+  }
+
+  // Get the titles
+  let results: DiscoverMovieResponse | DiscoverTvResponse | null;
+
+  try {
+    results = await browse({ ...browseQuery, filter: { with_genres: browseQuery.id.toString() } });
+  } catch (error) {
+    results = null;
+  }
+
+  // Current user
+  let user: AuthUser;
+
+  try {
+    user = await authUser({ cookie: req.headers.cookie ?? '' });
+  } catch (error) {
+    user = { auth: false };
+  }
+
+  // Return it all!
+  return {
+    props: {
+      user,
+      genre,
+      query: browseQuery,
+      results,
+    },
+  };
+};
+
+// Component
+const Genre: NextPage<InferGetServerSidePropsType<typeof getServerSideProps>> = ({
+  genre,
+  query,
+  results,
+}) => {
+  // Render
+  return (
+    <DetailsLayout>
+      <Head>
+        <title>{genre.name} • Movies</title>
+      </Head>
+
+      <Browse
+        label={query.media === 'movie' ? 'Movie genre' : 'TV genre'}
+        title={genre.name ?? 'Unknown genre'}
+        media={[query.media]}
+        query={query}
+        results={results}
+      />
+    </DetailsLayout>
+  );
+};
+
+export default Genre;
@@ -1,6 +1,7 @@
-import { useEffect, useRef, useState } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
 import type { GetServerSideProps, InferGetServerSidePropsType, NextPage } from 'next';
 import Head from 'next/head';
+import Link from 'next/link';
 import { useRouter } from 'next/router';
 import type { SearchMultiResponse } from 'moviedb-promise/dist/request-types';
 
@@ -8,6 +9,7 @@ import HomeLayout from '../components/layouts/Home';
 import Pagination from '../components/search/Pagination';
 import TabButton from '../components/search/TabButton';
 import ListItem from '../components/lists/ListItem';
+import ForYou from '../components/lists/ForYou';
 
 import {
   formatSearchAll,
@@ -20,7 +22,7 @@ import type { ApiError, ApiResponse } from '../lib/api';
 import { AuthUser, authUser } from '../lib/api/auth';
 import { searchMovie } from '../lib/api/movie';
 import { searchPerson } from '../lib/api/person';
-import { searchAll, getTrending } from '../lib/api/search';
+import { searchAll, getTrending, TrendingTimeWindow } from '../lib/api/search';
 import { searchTv } from '../lib/api/tvShow';
 
 // Types
@@ -33,6 +35,78 @@ type ServerSideResponse = {
   error?: ApiError;
 };
 
+type SavedResults = {
+  asPath: string;
+  results: ListItemType[];
+  firstPage: number;
+  lastPage: number;
+  scrollY: number;
+};
+
+// Constants
+const tabs: Tab[] = ['all', 'movie', 'tv', 'person'];
+
+const infiniteStorageKey = 'search-infinite-scroll';
+const restoreStorageKey = 'search-infinite-restore';
+
+// Helpers
+const parseTab = (value?: string | string[]) =>
+  tabs.find((tab) => tab === value?.toString()) ?? 'all';
+
+const searchTab = async (tab: Tab, query: string, page: number) => {
+  switch (tab) {
+    case 'all': {
+      const data = await searchAll({ query, page });
+
+      return { data, formatted: formatSearchAll(data) };
+    }
+    case 'movie': {
+      const data = await searchMovie({ query, page });
+
+      return { data, formatted: formatSearchMovie(data) };
+    }
+    case 'tv': {
+      const data = await searchTv({ query, page });
+
+      return { data, formatted: formatSearchTvShow(data) };
+    }
+    case 'person': {
+      const data = await searchPerson({ query, page });
+
+      return { data, formatted: formatSearchPerson(data) };
+    }
+    default:
+      // Something went wrong!
+      throw new Error(`Unknown search tab`);
+  }
+};
+
+const parseSavedResults = (saved: string): SavedResults | undefined => {
+  try {
+    const restore = JSON.parse(saved);
+
+    // Could be left over from an older version of the page
+    return typeof restore?.asPath === 'string' &&
+      Array.isArray(restore.results) &&
+      typeof restore.firstPage === 'number' &&
+      typeof restore.lastPage === 'number' &&
+      typeof restore.scrollY === 'number'
+      ? restore
+      : undefined;
+  } catch (error) {
+    return undefined;
+  }
+};
+
+const itemKey = (item: ListItemType) => `${item.type}-${item.tmdbId}`;
+
+const mergeResults = (current: ListItemType[], next: ListItemType[]) => {
+  // Results shift between pages as popularity changes, so the same title can come back twice
+  const seen = current.map(itemKey);
+
+  return [...current, ...next.filter((item) => !seen.includes(itemKey(item)))];
+};
+
 // SSR
 export const getServerSideProps: GetServerSideProps<ServerSideResponse> = async ({
   req,
@@ -49,8 +123,9 @@ export const getServerSideProps: GetServerSideProps<ServerSideResponse> = async
 
   // Search results
   const search = query.search ? query.search.toString() : '';
-  const tab = (query.tab ? query.tab.toString() : 'all') as Tab;
+  const tab = parseTab(query.tab);
   const page = query.page ? parseInt(query.page.toString()) : 1;
+  const time = (query.time === 'week' ? 'week' : 'day') as TrendingTimeWindow;
 
   try {
     if (search && search.trim() !== '') {
@@ -98,8 +173,8 @@ export const getServerSideProps: GetServerSideProps<ServerSideResponse> = async
           };
       }
     } else {
-      // Fallback to trending
-      const searchTrending = await getTrending();
+      // Fallback to trending, the tab doubles as the media type
+      const searchTrending = await getTrending({ mediaType: tab, timeWindow: time });
 
       return {
         props: {
@@ -142,17 +217,39 @@ const Home: NextPage<InferGetServerSidePropsType<typeof getServerSideProps>> = (
     props.formattedResults || []
   );
 
+  const [infinite, setInfinite] = useState(false);
+  const [firstPage, setFirstPage] = useState(1);
+  const [lastPage, setLastPage] = useState(1);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [loadMoreError, setLoadMoreError] = useState<'previous' | 'next' | undefined>(undefined);
+  const [refreshKey, setRefreshKey] = useState(0);
+
   // Refs
   const firstRun = useRef(true);
+  const skipFetch = useRef(false);
   const tabRef = useRef<HTMLDivElement>(null);
+  const sentinelRef = useRef<HTMLDivElement>(null);
 
   // Derived state
   const search = (router.query.search || '') as string;
-  const tab = (router.query.tab || 'all') as Tab;
+  const tab = parseTab(router.query.tab);
   const page = parseInt((router.query.page as string) || '1');
+  const time = (router.query.time === 'week' ? 'week' : 'day') as TrendingTimeWindow;
+
+  const totalPages = searchResults.status === 'resolved' ? searchResults.data.total_pages ?? 1 : 1;
 
   // Effects
   useEffect(() => {
+    // Infinite scroll only moved the page along in the URL, the results are already showing
+    if (skipFetch.current) {
+      skipFetch.current = false;
+      return;
+    }
+
+    setFirstPage(page);
+    setLastPage(page);
+    setLoadMoreError(undefined);
+
     if (!firstRun.current) {
       let isCancelled = false;
 
@@ -163,97 +260,23 @@ const Home: NextPage<InferGetServerSidePropsType<typeof getServerSideProps>> = (
           tabRef.current.scrollIntoView({ behavior: 'smooth' });
         }
 
-        switch (tab) {
-          case 'all':
-            searchAll({
-              query: search,
-              page,
-            })
-              .then((data) => {
-                if (!isCancelled) {
-                  setSearchResults({ status: 'resolved', data });
-                  setFormattedResults(formatSearchAll(data));
-                }
-              })
-              .catch((error: ApiError) => {
-                if (!isCancelled) {
-                  // TODO: Handle error
-                  setSearchResults({ status: 'rejected', error });
-                  setFormattedResults([]);
-                }
-              });
-
-            break;
-          case 'movie':
-            searchMovie({
-              query: search,
-              page,
-            })
-              .then((data) => {
-                if (!isCancelled) {
-                  setSearchResults({ status: 'resolved', data });
-                  setFormattedResults(formatSearchMovie(data));
-                }
-              })
-              .catch((error: ApiError) => {
-                if (!isCancelled) {
-                  // TODO: Handle error
-                  setSearchResults({ status: 'rejected', error });
-                  setFormattedResults([]);
-                }
-              });
-
-            break;
-          case 'tv':
-            searchTv({
-              query: search,
-              page,
-            })
-              .then((data) => {
-                if (!isCancelled) {
-                  setSearchResults({ status: 'resolved', data });
-                  setFormattedResults(formatSearchTvShow(data));
-                }
-              })
-              .catch((error: ApiError) => {
-                if (!isCancelled) {
-                  // TODO: Handle error
-                  setSearchResults({ status: 'rejected', error });
-                  setFormattedResults([]);
-                }
-              });
-
-            break;
-          case 'person':
-            searchPerson({
-              query: search,
-              page,
-            })
-              .then((data) => {
-                if (!isCancelled) {
-                  setSearchResults({ status: 'resolved', data });
-                  setFormattedResults(formatSearchPerson(data));
-                }
-              })
-              .catch((error: ApiError) => {
-                if (!isCancelled) {
-                  // TODO: Handle error
-                  setSearchResults({ status: 'rejected', error });
-                  setFormattedResults([]);
-                }
-              });
-
-            break;
-          default:
-            // Something went wrong!
-            setSearchResults({ status: 'rejected' });
-            setFormattedResults([]);
-
-            break;
-        }
+        searchTab(tab, search, page)
+          .then(({ data, formatted }) => {
+            if (!isCancelled) {
+              setSearchResults({ status: 'resolved', data });
+              setFormattedResults(formatted);
+            }
+          })
+          .catch((error: ApiError) => {
+            if (!isCancelled) {
+              // TODO: Handle error
+              setSearchResults({ status: 'rejected', error });
+              setFormattedResults([]);
+            }
+          });
       } else {
-        // Default to trending today
-        getTrending()
+        // Default to trending
+        getTrending({ mediaType: tab, timeWindow: time })
           .then((data) => {
             if (!isCancelled) {
               setSearchResults({ status: 'resolved', data });
@@ -275,7 +298,116 @@ const Home: NextPage<InferGetServerSidePropsType<typeof getServerSideProps>> = (
     } else {
       firstRun.current = false;
     }
-  }, [search, page, tab]);
+  }, [search, page, tab, time, refreshKey]);
+
+  useEffect(() => {
+    const savedInfinite = localStorage.getItem(infiniteStorageKey) === 'true';
+
+    setInfinite(savedInfinite);
+
+    // Coming back to an infinite list, put back everything that was loaded and where we were
+    const saved = sessionStorage.getItem(restoreStorageKey);
+
+    if (savedInfinite && saved) {
+      const restore = parseSavedResults(saved);
+
+      if (restore && restore.asPath === router.asPath) {
+        setFormattedResults(restore.results);
+        setFirstPage(restore.firstPage);
+        setLastPage(restore.lastPage);
+
+        requestAnimationFrame(() => window.scrollTo(0, restore.scrollY));
+      }
+
+      sessionStorage.removeItem(restoreStorageKey);
+    }
+  }, [router.asPath]);
+
+  useEffect(() => {
+    if (!infinite || !search) {
+      return;
+    }
+
+    const handleRouteChangeStart = () => {
+      const restore: SavedResults = {
+        asPath: router.asPath,
+        results: formattedResults,
+        firstPage,
+        lastPage,
+        scrollY: window.scrollY,
+      };
+
+      sessionStorage.setItem(restoreStorageKey, JSON.stringify(restore));
+    };
+
+    router.events.on('routeChangeStart', handleRouteChangeStart);
+
+    return () => {
+      router.events.off('routeChangeStart', handleRouteChangeStart);
+    };
+  }, [router, infinite, search, formattedResults, firstPage, lastPage]);
+
+  // Callbacks
+  const loadMore = useCallback(() => {
+    const nextPage = lastPage + 1;
+
+    setLoadingMore(true);
+    setLoadMoreError(undefined);
+
+    searchTab(tab, search, nextPage)
+      .then(({ formatted }) => {
+        setFormattedResults((results) => mergeResults(results, formatted));
+        setLastPage(nextPage);
+        setLoadingMore(false);
+
+        // Keep the furthest page in the URL for deep links
+        skipFetch.current = true;
+
+        router.replace(
+          {
+            pathname: router.pathname,
+            query: { ...router.query, page: nextPage.toString() },
+          },
+          undefined,
+          { shallow: true, scroll: false }
+        );
+      })
+      .catch(() => {
+        // Stops the sentinel from retrying until asked to
+        setLoadingMore(false);
+        setLoadMoreError('next');
+      });
+  }, [router, tab, search, lastPage]);
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+
+    if (
+      !infinite ||
+      !search ||
+      !sentinel ||
+      loadingMore ||
+      loadMoreError ||
+      lastPage >= totalPages
+    ) {
+      return;
+    }
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0].isIntersecting) {
+          loadMore();
+        }
+      },
+      { rootMargin: '400px' }
+    );
+
+    observer.observe(sentinel);
+
+    return () => {
+      observer.disconnect();
+    };
+  }, [infinite, search, loadingMore, loadMoreError, lastPage, totalPages, loadMore]);
 
   // Handlers
   const handleSearch = (event: React.FormEvent<HTMLFormElement>) => {
@@ -317,6 +449,51 @@ const Home: NextPage<InferGetServerSidePropsType<typeof getServerSideProps>> = (
     );
   };
 
+  const loadPrevious = () => {
+    const previousPage = firstPage - 1;
+
+    setLoadingMore(true);
+    setLoadMoreError(undefined);
+
+    searchTab(tab, search, previousPage)
+      .then(({ formatted }) => {
+        setFormattedResults((results) => mergeResults(formatted, results));
+        setFirstPage(previousPage);
+        setLoadingMore(false);
+      })
+      .catch(() => {
+        setLoadingMore(false);
+        setLoadMoreError('previous');
+      });
+  };
+
+  const toggleInfinite = () => {
+    localStorage.setItem(infiniteStorageKey, (!infinite).toString());
+
+    setInfinite(!infinite);
+
+    // Back to a single page of results
+    if (infinite && firstPage !== lastPage) {
+      setRefreshKey((key) => key + 1);
+    }
+  };
+
+  const changeTime = (time: TrendingTimeWindow) => {
+    const newQuery = { ...router.query };
+
+    newQuery.time = time;
+
+    // Update url
+    router.push(
+      {
+        pathname: router.pathname,
+        query: newQuery,
+      },
+      undefined,
+      { shallow: true }
+    );
+  };
+
   // Render
   return (
     <>
@@ -381,68 +558,141 @@ const Home: NextPage<InferGetServerSidePropsType<typeof getServerSideProps>> = (
             </div>
           </form>
 
+          <p className="mt-4 text-center text-sm text-gray-500">
+            Not sure what you&apos;re looking for?{' '}
+            <Link href="/discover">
+              <a className="font-medium text-indigo-600 hover:text-indigo-500">
+                Discover by genre, year and rating
+              </a>
+            </Link>
+          </p>
+
+          {!search ? <ForYou /> : null}
+
           {searchResults ? (
             <div className="mt-16" ref={tabRef}>
               {!search ? (
-                <div className="border-b border-gray-200 pb-5">
-                  <h3 className="text-lg font-medium leading-6 text-gray-900">Trending today</h3>
-                </div>
-              ) : (
-                <>
-                  <div className="sm:hidden">
-                    <label htmlFor="tabs" className="sr-only">
-                      Select a tab
+                <h3 className="mb-4 text-lg font-medium leading-6 text-gray-900">
+                  Trending {time === 'week' ? `this week` : `today`}
+                </h3>
+              ) : null}
+
+              <div className="space-y-3 sm:hidden">
+                <label htmlFor="tabs" className="sr-only">
+                  Select a tab
+                </label>
+                <select
+                  id="tabs"
+                  name="tabs"
+                  className="block w-full rounded-md border-gray-300 py-2 pl-3 pr-10 text-base focus:border-indigo-500 focus:outline-none focus:ring-indigo-500 sm:text-sm"
+                  value={tab}
+                  onChange={(event) => {
+                    const newQuery = { ...router.query };
+
+                    newQuery.tab = event.target.value;
+
+                    // Update url
+                    router.push(
+                      {
+                        pathname: router.pathname,
+                        query: newQuery,
+                      },
+                      undefined,
+                      { shallow: true }
+                    );
+                  }}
+                >
+                  <option value="all">All</option>
+                  <option value="movie">Movie</option>
+                  <option value="tv">TV Show</option>
+                  <option value="person">Person</option>
+                </select>
+
+                {!search ? (
+                  <>
+                    <label htmlFor="time" className="sr-only">
+                      Select a time window
                     </label>
                     <select
-                      id="tabs"
-                      name="tabs"
+                      id="time"
+                      name="time"
                       className="block w-full rounded-md border-gray-300 py-2 pl-3 pr-10 text-base focus:border-indigo-500 focus:outline-none focus:ring-indigo-500 sm:text-sm"
-                      value={tab}
-                      onChange={(event) => {
-                        const newQuery = { ...router.query };
-
-                        newQuery.tab = event.target.value;
-
-                        // Update url
-                        router.push(
-                          {
-                            pathname: router.pathname,
-                            query: newQuery,
-                          },
-                          undefined,
-                          { shallow: true }
-                        );
-                      }}
+                      value={time}
+                      onChange={(event) => changeTime(event.target.value as TrendingTimeWindow)}
                     >
-                      <option value="all">All</option>
-                      <option value="movie">Movie</option>
-                      <option value="tv">TV Show</option>
-                      <option value="person">Person</option>
+                      <option value="day">Today</option>
+                      <option value="week">This week</option>
                     </select>
-                  </div>
-                  <div className="hidden sm:block">
-                    <div className="border-b border-gray-200">
-                      <nav className="-mb-px flex space-x-8" aria-label="Tabs">
-                        <TabButton current={tab === 'all'} onClick={() => changeTab('all')}>
-                          All
-                        </TabButton>
-
-                        <TabButton current={tab === 'movie'} onClick={() => changeTab('movie')}>
-                          Movie
-                        </TabButton>
-
-                        <TabButton current={tab === 'tv'} onClick={() => changeTab('tv')}>
-                          TV Show
-                        </TabButton>
-
-                        <TabButton current={tab === 'person'} onClick={() => changeTab('person')}>
-                          Person
-                        </TabButton>
-                      </nav>
+                  </>
+                ) : null}
+              </div>
+              <div className="hidden sm:block">
+                <div className="flex border-b border-gray-200">
+                  <nav className="-mb-px flex space-x-8" aria-label="Tabs">
+                    <TabButton current={tab === 'all'} onClick={() => changeTab('all')}>
+                      All
+                    </TabButton>
+
+                    <TabButton current={tab === 'movie'} onClick={() => changeTab('movie')}>
+                      Movie
+                    </TabButton>
+
+                    <TabButton current={tab === 'tv'} onClick={() => changeTab('tv')}>
+                      TV Show
+                    </TabButton>
+
+                    <TabButton current={tab === 'person'} onClick={() => changeTab('person')}>
+                      Person
+                    </TabButton>
+                  </nav>
+
+                  {!search ? (
+                    <nav className="-mb-px ml-auto flex space-x-8" aria-label="Time window">
+                      <TabButton current={time === 'day'} onClick={() => changeTime('day')}>
+                        Today
+                      </TabButton>
+
+                      <TabButton current={time === 'week'} onClick={() => changeTime('week')}>
+                        This week
+                      </TabButton>
+                    </nav>
+                  ) : null}
+                </div>
+              </div>
+
+              {search ? (
+                <div className="mt-4 flex items-center justify-between">
+                  {infinite && firstPage > 1 ? (
+                    <div className="text-sm">
+                      {loadMoreError === 'previous' ? (
+                        <span className="mr-2 text-red-600">
+                          Couldn&apos;t load earlier results
+                        </span>
+                      ) : null}
+                      <button
+                        type="button"
+                        className="font-medium text-indigo-600 hover:text-indigo-500"
+                        disabled={loadingMore}
+                        onClick={loadPrevious}
+                      >
+                        {loadMoreError === 'previous' ? `Retry` : `Load earlier results`}
+                      </button>
                     </div>
-                  </div>
-                </>
-              )}
+                  ) : (
+                    <span />
+                  )}
+
+                  <label className="inline-flex items-center text-sm text-gray-500">
+                    <input
+                      type="checkbox"
+                      className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                      checked={infinite}
+                      onChange={toggleInfinite}
+                    />
+                    <span className="ml-2">Infinite scroll</span>
+                  </label>
+                </div>
+              ) : null}
 
               {searchResults.status !== 'rejected' ? (
                 <>
@@ -462,7 +712,7 @@ const Home: NextPage<InferGetServerSidePropsType<typeof getServerSideProps>> = (
                     ) : (
                       <>
                         {formattedResults.map((result) => (
-                          <li key={result.tmdbId} className="relative">
+                          <li key={`${result.type}-${result.tmdbId}`} className="relative">
                             <ListItem item={result} action="add" />
                           </li>
                         ))}
@@ -470,10 +720,29 @@ const Home: NextPage<InferGetServerSidePropsType<typeof getServerSideProps>> = (
                     )}
                   </ul>
 
-                  {search &&
-                  searchResults.status === 'resolved' &&
-                  searchResults.data.total_pages &&
-                  searchResults.data.total_pages > 1 ? (
+                  {search && infinite && searchResults.status === 'resolved' ? (
+                    <div ref={sentinelRef} className="mt-8 text-center text-sm text-gray-500">
+                      {loadingMore ? (
+                        `Loading more results...`
+                      ) : loadMoreError === 'next' ? (
+                        <>
+                          <span className="mr-2 text-red-600">Couldn&apos;t load more results</span>
+                          <button
+                            type="button"
+                            className="font-medium text-indigo-600 hover:text-indigo-500"
+                            onClick={loadMore}
+                          >
+                            Retry
+                          </button>
+                        </>
+                      ) : lastPage >= totalPages ? (
+                        `That's everything`
+                      ) : null}
+                    </div>
+                  ) : search &&
+                    searchResults.status === 'resolved' &&
+                    searchResults.data.total_pages &&
+                    searchResults.data.total_pages > 1 ? (
                     <Pagination
                       currentPage={page}
                       totalPages={searchResults.data.total_pages}
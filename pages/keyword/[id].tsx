@@ -0,0 +1,123 @@
+import { GetServerSideProps, InferGetServerSidePropsType, NextPage } from 'next';
+import Head from 'next/head';
+import type {
+  DiscoverMovieResponse,
+  DiscoverTvResponse,
+  KeywordResponse,
+} from 'moviedb-promise/dist/request-types';
+
+import DetailsLayout from '../../components/layouts/Details';
+import Browse from '../../components/browse/Browse';
+
+import { getKeyword } from '../../lib/api/browse';
+import { browse, BrowseMedia, BrowseQuery, parseBrowseQuery } from '../../lib/browse';
+import { AuthUser, authUser } from '../../lib/api/auth';
+
+// Types
+type ServerSideResponse = {
+  user: AuthUser;
+  keyword: KeywordResponse;
+  query: BrowseQuery;
+  results: DiscoverMovieResponse | DiscoverTvResponse | null;
+};
+
+// Constants
+const media: BrowseMedia[] = ['movie', 'tv'];
+
+// SSR
+export const getServerSideProps: GetServerSideProps<ServerSideResponse> = async ({
+  req,
+  query,
+}) => {
+  // Validate params
+  const browseQuery = parseBrowseQuery(query, media);
+
+  if (!browseQuery) {
+    return {
+      redirect: {
+        destination: '/',
+        permanent: false,
+      },
+    };
+  }
+
+  // Get the keyword
+  let keyword: KeywordResponse;
+
+  try {
+    keyword = await getKeyword({ id: browseQuery.id });
+  } catch (error) {
+    return {
+      redirect: {
+        destination: '/',
+        permanent: false,
+      },
+    };
+  }
+
+  if (!keyword.id) {
+    return {
+      redirect: {
+        destination: '/',
+        permanent: false,
+      },
+    };
+  }
+
+  // Get the titles
+  let results: DiscoverMovieResponse | DiscoverTvResponse | null;
+
+  try {
+    results = await browse({
+      ...browseQuery,
+      filter: { with_keywords: browseQuery.id.toString() },
+    });
+  } catch (error) {
+    results = null;
+  }
+
+  // Current user
+  let user: AuthUser;
+
+  try {
+    user = await authUser({ cookie: req.headers.cookie ?? '' });
+  } catch (error) {
+    user = { auth: false };
+  }
+
+  // Return it all!
+  return {
+    props: {
+      user,
+      keyword,
+      query: browseQuery,
+      results,
+    },
+  };
+};
+
+// Component
+const Keyword: NextPage<InferGetServerSidePropsType<typeof getServerSideProps>> = ({
+  keyword,
+  query,
+  results,
+}) => {
+  // Render
+  return (
+    <DetailsLayout>
+      <Head>
+        <title>{keyword.name} • Movies</title>
+      </Head>
+
+      <Browse
+        label="Keyword"
+        title={keyword.name ?? 'Unknown keyword'}
+        media={media}
+        query={query}
+        results={results}
+      />
+    </DetailsLayout>
+  );
+};
+
+export default Keyword;
@@ -0,0 +1,162 @@
+import { GetServerSideProps, InferGetServerSidePropsType, NextPage } from 'next';
+import Head from 'next/head';
+import Link from 'next/link';
+
+import DetailsLayout from '../../components/layouts/Details';
+import ListItem from '../../components/lists/ListItem';
+
+import { getList } from '../../lib/api/lists';
+import type { List as ListType } from '../../lib/api/types';
+import type { ListItem as ListItemType } from '../../lib/format';
+import { imageUrl } from '../../lib/images';
+import { AuthUser, authUser } from '../../lib/api/auth';
+
+// Types
+type ServerSideResponse = {
+  user: AuthUser;
+  list: ListType;
+  shareUrl: string;
+};
+
+// SSR
+export const getServerSideProps: GetServerSideProps<ServerSideResponse> = async ({
+  req,
+  query,
+}) => {
+  // Validate params
+  if (!query.slug) {
+    return {
+      redirect: {
+        destination: '/',
+        permanent: false,
+      },
+    };
+  }
+
+  const slug = query.slug.toString();
+
+  // Get the list (private lists are only returned to their owner)
+  let list: ListType;
+
+  try {
+    list = await getList(slug, { cookie: req.headers.cookie ?? '' });
+  } catch (error) {
+    return { notFound: true };
+  }
+
+  // Current user
+  let user: AuthUser;
+
+  try {
+    user = await authUser({ cookie: req.headers.cookie ?? '' });
+  } catch (error) {
+    user = { auth: false };
+  }
+
+  // Absolute URL for Open Graph tags, from config as the Host header can't be trusted
+  const siteUrl = process.env.SITE_URL || process.env.NEXT_PUBLIC_SITE_URL || '';
+  const shareUrl = `${siteUrl.replace(/\/$/, '')}/list/${list.slug}`;
+
+  // Return it all!
+  return {
+    props: {
+      user,
+      list,
+      shareUrl,
+    },
+  };
+};
+
+// Component
+const SharedList: NextPage<InferGetServerSidePropsType<typeof getServerSideProps>> = ({
+  user,
+  list,
+  shareUrl,
+}) => {
+  // Derived state
+  const items = [...(list.items ?? [])].sort((a, b) => a.position - b.position);
+  const isOwner = user.auth && user.user.id === list.userId;
+
+  const posters = items
+    .filter((item) => item.posterUrl)
+    .slice(0, 4)
+    .map((item) => imageUrl(item.posterUrl, 'w600_and_h900_bestv2'));
+
+  const description =
+    items.length > 0
+      ? `${items.length} ${items.length === 1 ? 'title' : 'titles'}, including ${items
+          .slice(0, 3)
+          .map((item) => item.title)
+          .join(', ')}`
+      : `An empty list`;
+
+  // Render
+  return (
+    <DetailsLayout>
+      <Head>
+        <title>{list.name} • Movies</title>
+        <meta name="description" content={description} />
+
+        <meta property="og:type" content="website" />
+        <meta property="og:url" content={shareUrl} />
+        <meta property="og:title" content={list.name} />
+        <meta property="og:description" content={description} />
+        {posters.map((poster) => (
+          <meta key={poster} property="og:image" content={poster} />
+        ))}
+
+        <meta
+          name="twitter:card"
+          content={posters.length > 0 ? 'summary_large_image' : 'summary'}
+        />
+        <meta name="twitter:title" content={list.name} />
+        <meta name="twitter:description" content={description} />
+        {posters.length > 0 ? <meta name="twitter:image" content={posters[0]} /> : null}
+
+        {list.visibility !== 'public' ? <meta name="robots" content="noindex" /> : null}
+      </Head>
+
+      <div className="mx-auto mt-10 max-w-7xl px-4 sm:px-6 lg:px-8">
+        <div className="border-b border-gray-200 pb-5 sm:flex sm:items-end sm:justify-between">
+          <div>
+            <h2 className="text-3xl font-extrabold text-gray-900">{list.name}</h2>
+            <p className="mt-2 text-sm text-gray-500">{description}</p>
+          </div>
+
+          {isOwner ? (
+            <div className="mt-3 sm:mt-0 sm:ml-4">
+              <Link href="/lists">
+                <a className="text-sm font-medium text-indigo-600 hover:text-indigo-500">
+                  Edit in my lists
+                </a>
+              </Link>
+            </div>
+          ) : null}
+        </div>
+
+        {items.length > 0 ? (
+          <ul className="mt-8 grid grid-cols-2 gap-x-4 gap-y-8 sm:grid-cols-4 sm:gap-x-6 lg:grid-cols-8 lg:gap-x-8 xl:gap-x-12">
+            {items.map((item) => (
+              <li key={item.id} className="relative">
+                <ListItem
+                  item={{
+                    tmdbId: item.tmdbId,
+                    type: item.mediaType.toLowerCase() as ListItemType['type'],
+                    title: item.title,
+                    subTitle: item.subtitle,
+                    poster: item.posterUrl,
+                  }}
+                  action="add"
+                />
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="mt-8 text-sm text-gray-500">There is nothing in this list yet.</p>
+        )}
+      </div>
+    </DetailsLayout>
+  );
+};
+
+export default SharedList;
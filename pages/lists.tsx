@@ -5,12 +5,13 @@ import Head from 'next/head';
 import DetailsLayout from '../components/layouts/Details';
 import Alert from '../components/assets/Alert';
 import List from '../components/lists/List';
+import ListImport from '../components/lists/ListImport';
 import Notification, { NotificationProps } from '../components/assets/Notification';
 
 import { useListState, useListDispatch } from '../hooks/useList';
 
 import { addList, deleteList, getAllLists, updateList } from '../lib/api/lists';
-import type { List as ListType } from '../lib/api/types';
+import type { List as ListType, ListVisibility } from '../lib/api/types';
 import type { ApiError } from '../lib/api';
 import { authUser, AuthUser } from '../lib/api/auth';
 
@@ -71,6 +72,8 @@ const Lists: NextPage<InferGetServerSidePropsType<typeof getServerSideProps>> =
 
   const [slug, setSlug] = useState<string | undefined>(undefined);
   const [name, setName] = useState('');
+  const [visibility, setVisibility] = useState<ListVisibility>('private');
+  const [showImport, setShowImport] = useState(false);
 
   const [submitLoading, setSubmitLoading] = useState(false);
   const [confirm, setConfirm] = useState<Confirm>({
@@ -93,13 +96,16 @@ const Lists: NextPage<InferGetServerSidePropsType<typeof getServerSideProps>> =
     // Clear the form
     setSlug(undefined);
     setName('');
+    setVisibility('private');
     setSubmitLoading(false);
 
     // Show the notification
     setConfirm((confirm) => ({
       ...confirm,
+      type: 'success',
       visible: true,
       title: message,
+      description: undefined,
     }));
   }, []);
 
@@ -127,7 +133,7 @@ const Lists: NextPage<InferGetServerSidePropsType<typeof getServerSideProps>> =
       setSubmitLoading(true);
 
       if (slug) {
-        updateList({ slug, name })
+        updateList({ slug, name, visibility })
           .then((list) => {
             // Update list
             listDispatch({ type: 'UPDATE_LIST', slug: list.slug, list });
@@ -140,7 +146,7 @@ const Lists: NextPage<InferGetServerSidePropsType<typeof getServerSideProps>> =
             setError(error.message);
           });
       } else {
-        addList(name)
+        addList({ name, visibility })
           .then((list) => {
             // Add to lists
             listDispatch({ type: 'ADD_LIST', list });
@@ -159,6 +165,7 @@ const Lists: NextPage<InferGetServerSidePropsType<typeof getServerSideProps>> =
   const handleCancel = () => {
     setSlug(undefined);
     setName('');
+    setVisibility('private');
   };
 
   const handleEdit = (list: ListType) => {
@@ -168,6 +175,47 @@ const Lists: NextPage<InferGetServerSidePropsType<typeof getServerSideProps>> =
 
     setSlug(list.slug);
     setName(list.name);
+    setVisibility(list.visibility);
+  };
+
+  const handleShare = (list: ListType) => {
+    const shareUrl = `${window.location.origin}/list/${list.slug}`;
+
+    // The clipboard API is missing outside secure contexts
+    if (!navigator.clipboard) {
+      setError(`Unable to copy the share link, it is ${shareUrl}`);
+      return;
+    }
+
+    navigator.clipboard
+      .writeText(shareUrl)
+      .then(() => {
+        setConfirm((confirm) => ({
+          ...confirm,
+          type: list.visibility === 'private' ? 'warn' : 'success',
+          visible: true,
+          title: 'Share link copied',
+          description:
+            list.visibility === 'private'
+              ? 'This list is private, so only you can view it until you change its visibility'
+              : undefined,
+        }));
+      })
+      .catch(() => {
+        setError(`Unable to copy the share link, it is ${shareUrl}`);
+      });
+  };
+
+  const handleImportComplete = (title: string, description?: string) => {
+    setShowImport(false);
+
+    setConfirm((confirm) => ({
+      ...confirm,
+      type: description ? 'warn' : 'success',
+      visible: true,
+      title,
+      description,
+    }));
   };
 
   const handleDelete = (list: ListType) => {
@@ -220,6 +268,23 @@ const Lists: NextPage<InferGetServerSidePropsType<typeof getServerSideProps>> =
             />
           </div>
 
+          <div className="mt-3 w-full sm:mt-0 sm:ml-3 sm:w-auto">
+            <label htmlFor="visibility" className="sr-only">
+              Visibility
+            </label>
+            <select
+              id="visibility"
+              name="visibility"
+              className="block w-full rounded-md border-gray-300 py-2 pl-3 pr-10 text-base focus:border-indigo-500 focus:outline-none focus:ring-indigo-500 sm:text-sm"
+              value={visibility}
+              onChange={(event) => setVisibility(event.target.value as ListVisibility)}
+            >
+              <option value="private">Private</option>
+              <option value="unlisted">Unlisted</option>
+              <option value="public">Public</option>
+            </select>
+          </div>
+
           <button
             type="submit"
             className={
@@ -244,11 +309,32 @@ const Lists: NextPage<InferGetServerSidePropsType<typeof getServerSideProps>> =
               Cancel
             </button>
           ) : null}
+
+          {!slug && !showImport ? (
+            <button
+              type="button"
+              className="mt-3 inline-flex w-full items-center justify-center rounded-md border border-gray-300 bg-white px-4 py-2 font-medium text-gray-700 shadow-sm hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 sm:mt-0 sm:ml-auto sm:w-auto sm:text-sm"
+              onClick={() => setShowImport(true)}
+            >
+              Import
+            </button>
+          ) : null}
         </form>
 
+        {showImport ? (
+          <div className="mt-5">
+            <ListImport onComplete={handleImportComplete} onCancel={() => setShowImport(false)} />
+          </div>
+        ) : null}
+
         {lists.map((list) => (
           <div key={list.id} className="mt-10">
-            <List list={list} onEdit={() => handleEdit(list)} onDelete={() => handleDelete(list)} />
+            <List
+              list={list}
+              onEdit={() => handleEdit(list)}
+              onDelete={() => handleDelete(list)}
+              onShare={() => handleShare(list)}
+            />
           </div>
         ))}
       </div>
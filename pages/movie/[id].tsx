@@ -1,25 +1,70 @@
 import { GetServerSideProps, InferGetServerSidePropsType, NextPage } from 'next';
 import Head from 'next/head';
 import Image from 'next/image';
-import type { CreditsResponse, MovieResponse } from 'moviedb-promise/dist/request-types';
-import { CalendarIcon, ClockIcon, FilmIcon, PlusSmIcon } from '@heroicons/react/solid';
+import Link from 'next/link';
+import type {
+  CreditsResponse,
+  MovieKeywordResponse,
+  MovieRecommendationsResponse,
+  MovieReleaseDatesResponse,
+  SimilarMovieResponse,
+  VideosResponse,
+  WatchProviderResponse,
+} from 'moviedb-promise/dist/request-types';
+import {
+  ArrowNarrowRightIcon,
+  CalendarIcon,
+  ClockIcon,
+  FilmIcon,
+  PlusSmIcon,
+} from '@heroicons/react/solid';
 
 import DetailsLayout from '../../components/layouts/Details';
 import Rating from '../../components/assets/Rating';
 import ListItem from '../../components/lists/ListItem';
+import PersonalRating from '../../components/lists/PersonalRating';
+import Trailers from '../../components/videos/Trailers';
+import Gallery from '../../components/images/Gallery';
+import BrowseLinks from '../../components/browse/BrowseLinks';
+import Keywords from '../../components/browse/Keywords';
+import WatchProviders from '../../components/providers/WatchProviders';
+import ReleaseDates from '../../components/releases/ReleaseDates';
 
 import { useListModalDispatch } from '../../hooks/useListModal';
 
-import { getMovieCredits, getMovie } from '../../lib/api/movie';
+import { ExtMovieResponse, optionalFetch } from '../../lib/api';
+
+import {
+  getMovieCredits,
+  getMovie,
+  getMovieRecommendations,
+  getSimilarMovies,
+  getMovieVideos,
+  getMovieImages,
+  getMovieWatchProviders,
+  getMovieReleaseDates,
+  getMovieKeywords,
+} from '../../lib/api/movie';
 import { formatRuntime, formatShortDate, formatYear } from '../../lib/dates';
-import { formatMovie } from '../../lib/format';
+import { formatCast, formatMovie } from '../../lib/format';
+import { formatImages, GalleryImage, imageUrl } from '../../lib/images';
+import { resolveRegion } from '../../lib/regions';
+import { formatReleaseDates } from '../../lib/releases';
 import { AuthUser, authUser } from '../../lib/api/auth';
 
 // Types
 type ServerSideResponse = {
   user: AuthUser;
-  movie: MovieResponse;
+  movie: ExtMovieResponse;
   credits?: CreditsResponse;
+  recommendations?: MovieRecommendationsResponse;
+  providers?: WatchProviderResponse;
+  region: string;
+  releaseDates?: MovieReleaseDatesResponse;
+  videos?: VideosResponse;
+  images?: GalleryImage[];
+  keywords?: MovieKeywordResponse;
+  similar?: SimilarMovieResponse;
 };
 
 // SSR
@@ -40,7 +85,7 @@ export const getServerSideProps: GetServerSideProps<ServerSideResponse> = async
   const movieId = parseInt(query.id.toString());
 
   // Get the movie
-  let movie: MovieResponse;
+  let movie: ExtMovieResponse;
 
   try {
     movie = await getMovie({ id: movieId });
@@ -62,23 +107,31 @@ export const getServerSideProps: GetServerSideProps<ServerSideResponse> = async
     };
   }
 
-  // Get the credits
-  let credits: CreditsResponse | undefined;
-
-  try {
-    credits = await getMovieCredits({ id: movieId });
-  } catch (error) {
-    credits = undefined;
-  }
-
-  // Current user
-  let user: AuthUser;
+  // Everything else is independent, so fetch it all at once
+  const [
+    credits,
+    providers,
+    releaseDates,
+    videos,
+    images,
+    keywords,
+    recommendations,
+    similar,
+    user,
+  ] = await Promise.all([
+    optionalFetch(getMovieCredits({ id: movieId })),
+    optionalFetch(getMovieWatchProviders({ id: movieId })),
+    optionalFetch(getMovieReleaseDates({ id: movieId })),
+    optionalFetch(getMovieVideos({ id: movieId })),
+    optionalFetch(getMovieImages({ id: movieId }).then(formatImages)),
+    optionalFetch(getMovieKeywords({ id: movieId })),
+    optionalFetch(getMovieRecommendations({ id: movieId })),
+    optionalFetch(getSimilarMovies({ id: movieId })),
+    authUser({ cookie: req.headers.cookie ?? '' }).catch((): AuthUser => ({ auth: false })),
+  ]);
 
-  try {
-    user = await authUser({ cookie: req.headers.cookie ?? '' });
-  } catch (error) {
-    user = { auth: false };
-  }
+  // Saved preference, or a best guess from the browser
+  const region = resolveRegion(user, req.headers['accept-language']);
 
   // Return it all!
   return {
@@ -86,6 +139,14 @@ export const getServerSideProps: GetServerSideProps<ServerSideResponse> = async
       user,
       movie,
       credits,
+      providers,
+      region,
+      releaseDates,
+      videos,
+      images,
+      keywords,
+      recommendations,
+      similar,
     },
   };
 };
@@ -94,10 +155,31 @@ export const getServerSideProps: GetServerSideProps<ServerSideResponse> = async
 const Movie: NextPage<InferGetServerSidePropsType<typeof getServerSideProps>> = ({
   movie,
   credits,
+  providers,
+  region,
+  releaseDates,
+  videos,
+  images,
+  keywords,
+  recommendations,
+  similar,
 }) => {
   // Hooks
   const listModalDispatch = useListModalDispatch();
 
+  // Derived state
+  const releases = releaseDates ? formatReleaseDates(releaseDates) : [];
+  const regionRelease = releases.find((release) => release.region === region);
+
+  const recommended = (recommendations?.results ?? []).slice(0, 8).map(formatMovie);
+  const recommendedIds = recommended.map((item) => item.tmdbId);
+
+  // Skip anything already recommended
+  const moreLikeThis = (similar?.results ?? [])
+    .map(formatMovie)
+    .filter((item) => !recommendedIds.includes(item.tmdbId))
+    .slice(0, 8);
+
   // Render
   return (
     <DetailsLayout>
@@ -109,7 +191,7 @@ const Movie: NextPage<InferGetServerSidePropsType<typeof getServerSideProps>> =
         className="bg-cover bg-right-top bg-no-repeat sm:bg-[right_-200px_top]"
         style={{
           backgroundImage: movie.backdrop_path
-            ? `url(https://www.themoviedb.org/t/p/w1920_and_h800_multi_faces/${movie.backdrop_path})`
+            ? `url(${imageUrl(movie.backdrop_path, 'w1920_and_h800_multi_faces')})`
             : undefined,
         }}
       >
@@ -119,7 +201,7 @@ const Movie: NextPage<InferGetServerSidePropsType<typeof getServerSideProps>> =
               <div className="aspect-w-2 aspect-h-3 overflow-hidden rounded-lg">
                 {movie.poster_path ? (
                   <Image
-                    src={`https://www.themoviedb.org/t/p/w600_and_h900_bestv2${movie.poster_path}`}
+                    src={imageUrl(movie.poster_path, 'w600_and_h900_bestv2')}
                     alt={movie.title}
                     layout="fill"
                     className="object-cover"
@@ -139,14 +221,31 @@ const Movie: NextPage<InferGetServerSidePropsType<typeof getServerSideProps>> =
               </h2>
 
               <div className="mt-1 flex flex-col sm:mt-0 sm:flex-row sm:flex-wrap sm:space-x-6">
+                {regionRelease?.certification ? (
+                  <div className="mt-2 flex items-center">
+                    <span
+                      className="rounded border border-gray-300 px-1.5 text-xs font-medium text-gray-200"
+                      title={`Certification in ${regionRelease.name}`}
+                    >
+                      {regionRelease.certification}
+                    </span>
+                  </div>
+                ) : null}
+
                 <div className="mt-2 flex items-center text-sm font-light text-gray-200">
                   <CalendarIcon className="mr-1.5 h-5 w-5 flex-shrink-0 text-gray-300" />
-                  {formatShortDate(movie.release_date)}
+                  {regionRelease?.theatrical ? (
+                    <>
+                      {formatShortDate(regionRelease.theatrical)} ({regionRelease.region})
+                    </>
+                  ) : (
+                    formatShortDate(movie.release_date)
+                  )}
                 </div>
 
                 <div className="mt-2 flex items-center text-sm font-light text-gray-200">
                   <FilmIcon className="mr-1.5 h-5 w-5 flex-shrink-0 text-gray-300" />
-                  {movie.genres?.map((genre) => genre.name).join(', ')}
+                  <BrowseLinks items={movie.genres ?? []} href={(id) => `/genre/${id}`} />
                 </div>
 
                 {movie.runtime ? (
@@ -160,6 +259,8 @@ const Movie: NextPage<InferGetServerSidePropsType<typeof getServerSideProps>> =
               <div className="mt-6 flex items-center space-x-6">
                 {movie.vote_average ? <Rating rating={movie.vote_average} /> : null}
 
+                <PersonalRating item={formatMovie(movie)} />
+
                 <button
                   type="button"
                   className="ml-6 inline-flex items-center rounded-md border border-transparent bg-blue-100 py-2 pl-4 pr-5 text-sm font-medium text-blue-700 shadow-sm hover:bg-blue-200 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 focus:ring-offset-blue-700"
@@ -182,36 +283,116 @@ const Movie: NextPage<InferGetServerSidePropsType<typeof getServerSideProps>> =
               <div className="mt-1">
                 <p className="font-light leading-7 text-gray-200">{movie.overview}</p>
               </div>
+
+              {movie.production_companies && movie.production_companies.length > 0 ? (
+                <p className="mt-6 text-sm font-light text-gray-200">
+                  <span className="font-medium">Production</span>{' '}
+                  <BrowseLinks items={movie.production_companies} href={(id) => `/company/${id}`} />
+                </p>
+              ) : null}
             </div>
           </div>
         </div>
       </div>
 
+      {movie.belongs_to_collection ? (
+        <div className="mx-auto mt-12 max-w-7xl px-4 sm:px-6 lg:px-8">
+          <div
+            className="overflow-hidden rounded-lg bg-cover bg-center"
+            style={{
+              backgroundImage: movie.belongs_to_collection.backdrop_path
+                ? `url(${imageUrl(
+                    movie.belongs_to_collection.backdrop_path,
+                    'w1920_and_h800_multi_faces'
+                  )})`
+                : undefined,
+            }}
+          >
+            <div className="bg-theme-movie px-6 py-8 sm:flex sm:items-center sm:justify-between">
+              <div>
+                <p className="text-sm font-light text-gray-200">Part of the</p>
+                <h3 className="text-xl font-bold text-white">{movie.belongs_to_collection.name}</h3>
+              </div>
+
+              <Link href={`/collection/${movie.belongs_to_collection.id}`}>
+                <a className="mt-4 inline-flex items-center rounded-md border border-transparent bg-blue-100 py-2 pl-5 pr-4 text-sm font-medium text-blue-700 shadow-sm hover:bg-blue-200 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 focus:ring-offset-blue-700 sm:mt-0">
+                  View the collection
+                  <ArrowNarrowRightIcon className="ml-2 -mr-1 h-5 w-5" />
+                </a>
+              </Link>
+            </div>
+          </div>
+        </div>
+      ) : null}
+
+      {providers ? <WatchProviders key={movie.id} providers={providers} region={region} /> : null}
+
+      <ReleaseDates key={movie.id} releases={releases} region={region} />
+
       <div className="mx-auto mt-12 max-w-7xl px-4 sm:px-6 lg:px-8">
-        <div className="border-b border-gray-200 pb-5">
+        <div className="border-b border-gray-200 pb-5 sm:flex sm:items-center sm:justify-between">
           <h3 className="text-lg font-medium leading-6 text-gray-900">Top billed cast</h3>
+          <div className="mt-3 sm:mt-0 sm:ml-4">
+            <Link href={`/movie/${movie.id}/credits`}>
+              <a className="text-sm font-medium text-indigo-600 hover:text-indigo-500">
+                Full cast &amp; crew
+              </a>
+            </Link>
+          </div>
         </div>
 
         {credits?.cast ? (
           <ul className="mt-8 grid grid-cols-2 gap-x-4 gap-y-8 sm:grid-cols-4 lg:grid-cols-8">
-            {credits.cast.slice(0, 8).map((result) => (
-              <li key={result.id} className="relative">
-                <ListItem
-                  item={{
-                    tmdbId: result.id ?? 0,
-                    type: 'person',
-                    title: result.name ?? 'Unknown name',
-                    subTitle: result.character,
-                    poster: result.profile_path ?? undefined,
-                  }}
-                  showType={false}
-                  action="add"
-                />
-              </li>
-            ))}
+            {formatCast(credits.cast)
+              .slice(0, 8)
+              .map((result) => (
+                <li key={result.tmdbId} className="relative">
+                  <ListItem item={result} showType={false} action="add" />
+                </li>
+              ))}
           </ul>
         ) : null}
       </div>
+
+      {videos?.results ? <Trailers videos={videos.results} /> : null}
+
+      {images ? (
+        <Gallery key={movie.id} images={images} alt={movie.title ?? 'Unknown title'} />
+      ) : null}
+
+      {keywords?.keywords ? <Keywords keywords={keywords.keywords} /> : null}
+
+      {recommended.length > 0 ? (
+        <div className="mx-auto mt-12 max-w-7xl px-4 sm:px-6 lg:px-8">
+          <div className="border-b border-gray-200 pb-5">
+            <h3 className="text-lg font-medium leading-6 text-gray-900">Recommended</h3>
+          </div>
+
+          <ul className="mt-8 grid grid-cols-2 gap-x-4 gap-y-8 sm:grid-cols-4 lg:grid-cols-8">
+            {recommended.map((result) => (
+              <li key={result.tmdbId} className="relative">
+                <ListItem item={result} showType={false} action="add" />
+              </li>
+            ))}
+          </ul>
+        </div>
+      ) : null}
+
+      {moreLikeThis.length > 0 ? (
+        <div className="mx-auto mt-12 max-w-7xl px-4 sm:px-6 lg:px-8">
+          <div className="border-b border-gray-200 pb-5">
+            <h3 className="text-lg font-medium leading-6 text-gray-900">More like this</h3>
+          </div>
+
+          <ul className="mt-8 grid grid-cols-2 gap-x-4 gap-y-8 sm:grid-cols-4 lg:grid-cols-8">
+            {moreLikeThis.map((result) => (
+              <li key={result.tmdbId} className="relative">
+                <ListItem item={result} showType={false} action="add" />
+              </li>
+            ))}
+          </ul>
+        </div>
+      ) : null}
     </DetailsLayout>
   );
 };
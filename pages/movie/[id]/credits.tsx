@@ -0,0 +1,168 @@
+import { GetServerSideProps, InferGetServerSidePropsType, NextPage } from 'next';
+import Head from 'next/head';
+import type { CreditsResponse, MovieResponse } from 'moviedb-promise/dist/request-types';
+
+import DetailsLayout from '../../../components/layouts/Details';
+import DetailsBanner from '../../../components/layouts/DetailsBanner';
+import ListItem from '../../../components/lists/ListItem';
+
+import { getMovieCredits, getMovie } from '../../../lib/api/movie';
+import { formatYear } from '../../../lib/dates';
+import { formatCast, formatCrew } from '../../../lib/format';
+import { AuthUser, authUser } from '../../../lib/api/auth';
+
+// Types
+type ServerSideResponse = {
+  user: AuthUser;
+  movie: MovieResponse;
+  credits: CreditsResponse;
+};
+
+// SSR
+export const getServerSideProps: GetServerSideProps<ServerSideResponse> = async ({
+  req,
+  query,
+}) => {
+  // Validate params
+  if (!query.id) {
+    return {
+      redirect: {
+        destination: '/',
+        permanent: false,
+      },
+    };
+  }
+
+  const movieId = parseInt(query.id.toString());
+
+  // Get the movie
+  let movie: MovieResponse;
+
+  try {
+    movie = await getMovie({ id: movieId });
+  } catch (error) {
+    return {
+      redirect: {
+        destination: '/',
+        permanent: false,
+      },
+    };
+  }
+
+  if (!movie.id) {
+    return {
+      redirect: {
+        destination: '/',
+        permanent: false,
+      },
+    };
+  }
+
+  // Get the credits
+  let credits: CreditsResponse;
+
+  try {
+    credits = await getMovieCredits({ id: movieId });
+  } catch (error) {
+    return {
+      redirect: {
+        destination: `/movie/${movieId}`,
+        permanent: false,
+      },
+    };
+  }
+
+  // Current user
+  let user: AuthUser;
+
+  try {
+    user = await authUser({ cookie: req.headers.cookie ?? '' });
+  } catch (error) {
+    user = { auth: false };
+  }
+
+  // Return it all!
+  return {
+    props: {
+      user,
+      movie,
+      credits,
+    },
+  };
+};
+
+// Component
+const MovieCredits: NextPage<InferGetServerSidePropsType<typeof getServerSideProps>> = ({
+  movie,
+  credits,
+}) => {
+  // Derived state
+  const cast = formatCast(credits.cast ?? []);
+  const departments = formatCrew(credits.crew ?? []);
+
+  // Render
+  return (
+    <DetailsLayout>
+      <Head>
+        <title>{movie.title} cast &amp; crew • Movies</title>
+      </Head>
+
+      <DetailsBanner
+        theme="movie"
+        title={movie.title ?? 'Unknown title'}
+        subTitle={movie.release_date ? `(${formatYear(movie.release_date)})` : undefined}
+        poster={movie.poster_path}
+        backHref={`/movie/${movie.id}`}
+        backLabel="Back to main"
+      />
+
+      <div className="mx-auto mt-12 max-w-7xl px-4 sm:px-6 lg:px-8">
+        <div className="border-b border-gray-200 pb-5">
+          <h3 className="text-lg font-medium leading-6 text-gray-900">
+            Cast <span className="font-light text-gray-500">{cast.length}</span>
+          </h3>
+        </div>
+
+        {cast.length > 0 ? (
+          <ul className="mt-8 grid grid-cols-2 gap-x-4 gap-y-8 sm:grid-cols-4 lg:grid-cols-8">
+            {cast.map((result, index) => (
+              <li key={`${result.tmdbId}-${index}`} className="relative">
+                <ListItem item={result} showType={false} action="add" />
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="mt-8 text-sm text-gray-500">No cast found.</p>
+        )}
+      </div>
+
+      <div className="mx-auto mt-12 max-w-7xl px-4 sm:px-6 lg:px-8">
+        <div className="border-b border-gray-200 pb-5">
+          <h3 className="text-lg font-medium leading-6 text-gray-900">
+            Crew <span className="font-light text-gray-500">{credits.crew?.length ?? 0}</span>
+          </h3>
+        </div>
+
+        {departments.length > 0 ? (
+          departments.map(({ department, crew }) => (
+            <div key={department} className="mt-8">
+              <h4 className="text-base font-semibold text-gray-700">{department}</h4>
+
+              <ul className="mt-4 grid grid-cols-2 gap-x-4 gap-y-8 sm:grid-cols-4 lg:grid-cols-8">
+                {crew.map((result) => (
+                  <li key={result.tmdbId} className="relative">
+                    <ListItem item={result} showType={false} action="add" />
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))
+        ) : (
+          <p className="mt-8 text-sm text-gray-500">No crew found.</p>
+        )}
+      </div>
+    </DetailsLayout>
+  );
+};
+
+export default MovieCredits;
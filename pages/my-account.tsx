@@ -8,15 +8,28 @@ import HomeLayout from '../components/layouts/Home';
 import Alert from '../components/assets/Alert';
 import Notification from '../components/assets/Notification';
 import Modal from '../components/assets/Modal';
+import ChangePassword from '../components/account/ChangePassword';
+import Sessions from '../components/account/Sessions';
 
 import { useUserDispatch, useUserState } from '../hooks/useUser';
 
-import { authUser, AuthUser, deleteUser, updateUser } from '../lib/api/auth';
+import {
+  authUser,
+  AuthUser,
+  deleteUser,
+  getSessions,
+  resendVerification,
+  updateUser,
+} from '../lib/api/auth';
+import { getAllLists } from '../lib/api/lists';
+import type { Session } from '../lib/api/types';
 import { ApiError } from '../lib/api';
+import { downloadExport, ExportFormat, formatExport } from '../lib/export';
 
 // Types
 type ServerSideResponse = {
   user: AuthUser;
+  sessions?: Session[];
 };
 
 // SSR
@@ -40,9 +53,19 @@ export const getServerSideProps: GetServerSideProps<ServerSideResponse> = async
     };
   }
 
+  // Signed in browsers and devices
+  let sessions: Session[] | undefined;
+
+  try {
+    sessions = await getSessions({ cookie: req.headers.cookie ?? '' });
+  } catch (error) {
+    sessions = undefined;
+  }
+
   return {
     props: {
       user,
+      sessions,
     },
   };
 };
@@ -60,8 +83,6 @@ const MyAccount: NextPage<InferGetServerSidePropsType<typeof getServerSideProps>
   // Local state
   const [name, setName] = useState(user?.name ?? '');
   const [email, setEmail] = useState(user?.email ?? '');
-  const [password, setPassword] = useState('');
-  const [confirm, setConfirm] = useState('');
 
   const [submitLoading, setSubmitLoading] = useState(false);
   const [showComplete, setShowComplete] = useState(false);
@@ -69,6 +90,13 @@ const MyAccount: NextPage<InferGetServerSidePropsType<typeof getServerSideProps>
   const [deleteLoading, setDeleteLoading] = useState(false);
   const [showConfirm, setShowConfirm] = useState(false);
 
+  const [resendLoading, setResendLoading] = useState(false);
+  const [showResent, setShowResent] = useState(false);
+
+  const [sessions, setSessions] = useState(props.sessions);
+
+  const [exportLoading, setExportLoading] = useState<ExportFormat | undefined>(undefined);
+
   const [error, setError] = useState<string | undefined>(undefined);
 
   // Effects
@@ -83,40 +111,70 @@ const MyAccount: NextPage<InferGetServerSidePropsType<typeof getServerSideProps>
   const handleSubmit = (event: React.FormEvent<HTMLFormElement>) => {
     event.preventDefault();
 
-    if (password !== confirm) {
-      setError('Passwords do not match');
-    } else {
-      setError(undefined);
-      setSubmitLoading(true);
-      setShowComplete(false);
-      setShowConfirm(false);
-
-      updateUser({
-        name,
-        email,
-        password,
-      })
-        .then((user) => {
-          userDispatch({
-            type: 'SET_USER',
+    setError(undefined);
+    setSubmitLoading(true);
+    setShowComplete(false);
+    setShowConfirm(false);
+
+    updateUser({
+      name,
+      email,
+    })
+      .then((user) => {
+        userDispatch({
+          type: 'SET_USER',
+          user: {
+            auth: true,
             user: {
-              auth: true,
-              user: {
-                id: user.id,
-                name: user.name,
-                email: user.email,
-              },
+              id: user.id,
+              name: user.name,
+              email: user.email,
+              emailVerified: user.emailVerified,
+              region: user.region,
             },
-          });
-
-          setSubmitLoading(false);
-          setShowComplete(true);
-        })
-        .catch((error: ApiError) => {
-          setSubmitLoading(false);
-          setError(error.message);
+          },
         });
-    }
+
+        setSubmitLoading(false);
+        setShowComplete(true);
+      })
+      .catch((error: ApiError) => {
+        setSubmitLoading(false);
+        setError(error.message);
+      });
+  };
+
+  const handleResend = () => {
+    setError(undefined);
+    setResendLoading(true);
+    setShowResent(false);
+
+    resendVerification()
+      .then(() => {
+        setResendLoading(false);
+        setShowResent(true);
+      })
+      .catch((error: ApiError) => {
+        setResendLoading(false);
+        setError(error.message);
+      });
+  };
+
+  const handleExport = (exportFormat: ExportFormat) => {
+    setError(undefined);
+    setExportLoading(exportFormat);
+
+    // Always fetch fresh, the list state may not have been loaded on this page
+    getAllLists()
+      .then((lists) => {
+        downloadExport(formatExport(lists, exportFormat, 'my-lists'));
+
+        setExportLoading(undefined);
+      })
+      .catch((error: ApiError) => {
+        setExportLoading(undefined);
+        setError(error.message);
+      });
   };
 
   const handleRemove = () => {
@@ -153,6 +211,26 @@ const MyAccount: NextPage<InferGetServerSidePropsType<typeof getServerSideProps>
 
         {error ? <Alert type="error" message={error} onClose={() => setError(undefined)} /> : null}
 
+        {userState.auth && !userState.user.emailVerified ? (
+          <div className="rounded-md bg-yellow-50 p-4">
+            <p className="text-sm text-yellow-700">
+              Your email address hasn&apos;t been verified yet. Check your inbox for the link we
+              sent to <span className="break-all font-medium">{userState.user.email}</span>.
+            </p>
+            <button
+              type="button"
+              className={
+                `mt-3 rounded-md bg-yellow-100 px-3 py-2 text-sm font-medium text-yellow-800 focus:outline-none focus:ring-2 focus:ring-yellow-600 focus:ring-offset-2 focus:ring-offset-yellow-50` +
+                (resendLoading ? ` opacity-75` : ` hover:bg-yellow-200`)
+              }
+              disabled={resendLoading}
+              onClick={handleResend}
+            >
+              {resendLoading ? `Please wait...` : `Resend verification email`}
+            </button>
+          </div>
+        ) : null}
+
         <form className="space-y-6" onSubmit={handleSubmit}>
           <div>
             <label htmlFor="name" className="sr-only">
@@ -188,39 +266,6 @@ const MyAccount: NextPage<InferGetServerSidePropsType<typeof getServerSideProps>
             />
           </div>
 
-          <div className="mt-2 -space-y-px rounded-md shadow-sm">
-            <div>
-              <label htmlFor="password" className="sr-only">
-                Password
-              </label>
-              <input
-                id="password"
-                name="password"
-                type="password"
-                autoComplete="password"
-                className="relative block w-full appearance-none rounded-none rounded-t-md border border-gray-300 px-3 py-2 text-gray-900 placeholder-gray-500 focus:z-10 focus:border-indigo-500 focus:outline-none focus:ring-indigo-500 sm:text-sm"
-                placeholder="Password"
-                value={password}
-                onChange={(e) => setPassword(e.target.value)}
-              />
-            </div>
-            <div>
-              <label htmlFor="confirm" className="sr-only">
-                Password
-              </label>
-              <input
-                id="confirm"
-                name="confirm"
-                type="password"
-                autoComplete="confirm-password"
-                className="relative block w-full appearance-none rounded-none rounded-b-md border border-gray-300 px-3 py-2 text-gray-900 placeholder-gray-500 focus:z-10 focus:border-indigo-500 focus:outline-none focus:ring-indigo-500 sm:text-sm"
-                placeholder="Confirm password"
-                value={confirm}
-                onChange={(e) => setConfirm(e.target.value)}
-              />
-            </div>
-          </div>
-
           <div>
             <button
               type="submit"
@@ -230,7 +275,7 @@ const MyAccount: NextPage<InferGetServerSidePropsType<typeof getServerSideProps>
               }
               disabled={submitLoading || deleteLoading}
             >
-              {submitLoading ? `Please wait...` : `Update account`}
+              {submitLoading ? `Please wait...` : `Update profile`}
             </button>
           </div>
 
@@ -248,15 +293,62 @@ const MyAccount: NextPage<InferGetServerSidePropsType<typeof getServerSideProps>
             </button>
           </div>
         </form>
+
+        <ChangePassword
+          onOthersSignedOut={() =>
+            setSessions((sessions) => sessions?.filter((session) => session.current))
+          }
+        />
+
+        <Sessions sessions={sessions} onChange={setSessions} />
+
+        <div className="border-t border-gray-200 pt-6">
+          <h3 className="text-lg font-medium leading-6 text-gray-900">Export your lists</h3>
+          <p className="mt-1 text-sm text-gray-500">
+            Download all of your lists, including watch status, ratings and notes. The Letterboxd
+            file only includes movies.
+          </p>
+
+          <div className="mt-4 grid grid-cols-3 gap-3">
+            {(
+              [
+                ['csv', 'CSV'],
+                ['json', 'JSON'],
+                ['letterboxd', 'Letterboxd'],
+              ] as [ExportFormat, string][]
+            ).map(([exportFormat, label]) => (
+              <button
+                key={exportFormat}
+                type="button"
+                className={
+                  `w-full rounded-md border border-gray-300 bg-white py-2 px-4 text-sm font-medium text-gray-700 shadow-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2` +
+                  (exportLoading ? ` opacity-75` : ` hover:bg-gray-50`)
+                }
+                disabled={!!exportLoading}
+                onClick={() => handleExport(exportFormat)}
+              >
+                {exportLoading === exportFormat ? `Please wait...` : label}
+              </button>
+            ))}
+          </div>
+        </div>
       </div>
 
       <Notification
         visible={showComplete}
         type="success"
-        title="Account updated"
+        title="Profile updated"
         onClose={() => setShowComplete(false)}
       />
 
+      <Notification
+        visible={showResent}
+        type="success"
+        title="Verification email sent"
+        description="Follow the link in the email to verify your address"
+        onClose={() => setShowResent(false)}
+      />
+
       <Modal title="remove-account-modal" visible={showConfirm} canClose={false}>
         <div className="sm:flex sm:items-start">
           <div className="mx-auto flex h-12 w-12 flex-shrink-0 items-center justify-center rounded-full bg-red-100 sm:mx-0 sm:h-10 sm:w-10">
@@ -0,0 +1,121 @@
+import { GetServerSideProps, InferGetServerSidePropsType, NextPage } from 'next';
+import Head from 'next/head';
+import type { DiscoverMovieResponse, DiscoverTvResponse } from 'moviedb-promise/dist/request-types';
+
+import DetailsLayout from '../../components/layouts/Details';
+import Browse from '../../components/browse/Browse';
+
+import type { ExtNetworkResponse } from '../../lib/api';
+import { getNetwork } from '../../lib/api/browse';
+import { browse, BrowseMedia, BrowseQuery, parseBrowseQuery } from '../../lib/browse';
+import { AuthUser, authUser } from '../../lib/api/auth';
+
+// Types
+type ServerSideResponse = {
+  user: AuthUser;
+  network: ExtNetworkResponse;
+  query: BrowseQuery;
+  results: DiscoverMovieResponse | DiscoverTvResponse | null;
+};
+
+// Constants
+const media: BrowseMedia[] = ['tv'];
+
+// SSR
+export const getServerSideProps: GetServerSideProps<ServerSideResponse> = async ({
+  req,
+  query,
+}) => {
+  // Validate params
+  const browseQuery = parseBrowseQuery(query, media);
+
+  if (!browseQuery) {
+    return {
+      redirect: {
+        destination: '/',
+        permanent: false,
+      },
+    };
+  }
+
+  // Get the network
+  let network: ExtNetworkResponse;
+
+  try {
+    network = await getNetwork({ id: browseQuery.id });
+  } catch (error) {
+    return {
+      redirect: {
+        destination: '/',
+        permanent: false,
+      },
+    };
+  }
+
+  if (!network.id) {
+    return {
+      redirect: {
+        destination: '/',
+        permanent: false,
+      },
+    };
+  }
+
+  // Get the titles
+  let results: DiscoverMovieResponse | DiscoverTvResponse | null;
+
+  try {
+    results = await browse({
+      ...browseQuery,
+      filter: { with_networks: browseQuery.id.toString() },
+    });
+  } catch (error) {
+    results = null;
+  }
+
+  // Current user
+  let user: AuthUser;
+
+  try {
+    user = await authUser({ cookie: req.headers.cookie ?? '' });
+  } catch (error) {
+    user = { auth: false };
+  }
+
+  // Return it all!
+  return {
+    props: {
+      user,
+      network,
+      query: browseQuery,
+      results,
+    },
+  };
+};
+
+// Component
+const Network: NextPage<InferGetServerSidePropsType<typeof getServerSideProps>> = ({
+  network,
+  query,
+  results,
+}) => {
+  // Render
+  return (
+    <DetailsLayout>
+      <Head>
+        <title>{network.name} • Movies</title>
+      </Head>
+
+      <Browse
+        label="TV network"
+        title={network.name ?? 'Unknown network'}
+        logo={network.logo_path}
+        media={media}
+        query={query}
+        results={results}
+      />
+    </DetailsLayout>
+  );
+};
+
+export default Network;
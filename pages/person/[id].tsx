@@ -2,18 +2,21 @@ import { GetServerSideProps, InferGetServerSidePropsType, NextPage } from 'next'
 import { useState } from 'react';
 import Head from 'next/head';
 import Image from 'next/image';
+import Link from 'next/link';
 import type { Person as PersonResponse } from 'moviedb-promise/dist/request-types';
 import { LocationMarkerIcon, PlusSmIcon, UserIcon } from '@heroicons/react/solid';
 import { CakeIcon } from '@heroicons/react/outline';
 
 import DetailsLayout from '../../components/layouts/Details';
 import ListItem from '../../components/lists/ListItem';
+import Gallery from '../../components/images/Gallery';
 
 import { useListModalDispatch } from '../../hooks/useListModal';
 
 import { formatAge } from '../../lib/dates';
-import { getPerson, getPersonCredits } from '../../lib/api/person';
+import { getPerson, getPersonCredits, getPersonImages } from '../../lib/api/person';
 import { formatPerson, formatPersonCredits, ListItem as ListItemType } from '../../lib/format';
+import { formatImages, GalleryImage, imageUrl } from '../../lib/images';
 import { AuthUser, authUser } from '../../lib/api/auth';
 
 // Types
@@ -21,6 +24,7 @@ type ServerSideResponse = {
   user: AuthUser;
   person: PersonResponse;
   credits?: ListItemType[];
+  images?: GalleryImage[];
 };
 
 // SSR
@@ -74,6 +78,15 @@ export const getServerSideProps: GetServerSideProps<ServerSideResponse> = async
     credits = undefined;
   }
 
+  // Get the images
+  let images: GalleryImage[] | undefined;
+
+  try {
+    images = formatImages(await getPersonImages({ id: personId }));
+  } catch (error) {
+    images = undefined;
+  }
+
   // Current user
   let user: AuthUser;
 
@@ -89,6 +102,7 @@ export const getServerSideProps: GetServerSideProps<ServerSideResponse> = async
       user,
       person,
       credits,
+      images,
     },
   };
 };
@@ -97,6 +111,7 @@ export const getServerSideProps: GetServerSideProps<ServerSideResponse> = async
 const Person: NextPage<InferGetServerSidePropsType<typeof getServerSideProps>> = ({
   person,
   credits,
+  images,
 }) => {
   // Hooks
   const listModalDispatch = useListModalDispatch();
@@ -117,7 +132,7 @@ const Person: NextPage<InferGetServerSidePropsType<typeof getServerSideProps>> =
             <div className="aspect-w-2 aspect-h-3 overflow-hidden rounded-lg">
               {person.profile_path ? (
                 <Image
-                  src={`https://www.themoviedb.org/t/p/w600_and_h900_bestv2${person.profile_path}`}
+                  src={imageUrl(person.profile_path, 'w600_and_h900_bestv2')}
                   alt={person.name}
                   layout="fill"
                   className="object-cover"
@@ -201,8 +216,15 @@ const Person: NextPage<InferGetServerSidePropsType<typeof getServerSideProps>> =
       </div>
 
       <div className="mx-auto mt-12 max-w-7xl px-4 sm:px-6 lg:px-8">
-        <div className="border-b border-gray-200 pb-5">
+        <div className="border-b border-gray-200 pb-5 sm:flex sm:items-center sm:justify-between">
           <h3 className="text-lg font-medium leading-6 text-gray-900">Latest roles</h3>
+          <div className="mt-3 sm:mt-0 sm:ml-4">
+            <Link href={`/person/${person.id}/filmography`}>
+              <a className="text-sm font-medium text-indigo-600 hover:text-indigo-500">
+                Full filmography
+              </a>
+            </Link>
+          </div>
         </div>
 
         {credits ? (
@@ -215,6 +237,10 @@ const Person: NextPage<InferGetServerSidePropsType<typeof getServerSideProps>> =
           </ul>
         ) : null}
       </div>
+
+      {images ? (
+        <Gallery key={person.id} images={images} alt={person.name ?? 'Unknown person'} />
+      ) : null}
     </DetailsLayout>
   );
 };
@@ -0,0 +1,283 @@
+import { GetServerSideProps, InferGetServerSidePropsType, NextPage } from 'next';
+import Head from 'next/head';
+import { useRouter } from 'next/router';
+import type {
+  Person as PersonResponse,
+  PersonCombinedCreditsResponse,
+} from 'moviedb-promise/dist/request-types';
+import parseISO from 'date-fns/parseISO';
+import isFuture from 'date-fns/isFuture';
+import compareAsc from 'date-fns/compareAsc';
+import compareDesc from 'date-fns/compareDesc';
+
+import DetailsLayout from '../../../components/layouts/Details';
+import DetailsBanner from '../../../components/layouts/DetailsBanner';
+import TabButton from '../../../components/search/TabButton';
+import ListItem from '../../../components/lists/ListItem';
+
+import { getPerson, getPersonCredits } from '../../../lib/api/person';
+import { formatFilmography, FilmographyCredit } from '../../../lib/format';
+import { AuthUser, authUser } from '../../../lib/api/auth';
+
+// Types
+type Media = 'all' | 'movie' | 'tv';
+type Sort = 'date' | 'popularity';
+
+type ServerSideResponse = {
+  user: AuthUser;
+  person: PersonResponse;
+  credits: PersonCombinedCreditsResponse;
+};
+
+// Constants
+const medias: Media[] = ['all', 'movie', 'tv'];
+const sorts: Sort[] = ['date', 'popularity'];
+
+// Helpers
+const parseOption = <T extends string>(value: string | string[] | undefined, options: T[]) =>
+  options.find((option) => option === value?.toString()) ?? options[0];
+
+// SSR
+export const getServerSideProps: GetServerSideProps<ServerSideResponse> = async ({
+  req,
+  query,
+}) => {
+  // Validate params
+  if (!query.id) {
+    return {
+      redirect: {
+        destination: '/',
+        permanent: false,
+      },
+    };
+  }
+
+  const personId = parseInt(query.id.toString());
+
+  // Get the person
+  let person: PersonResponse;
+
+  try {
+    person = await getPerson({ id: personId });
+  } catch (error) {
+    return {
+      redirect: {
+        destination: '/',
+        permanent: false,
+      },
+    };
+  }
+
+  if (!person.id) {
+    return {
+      redirect: {
+        destination: '/',
+        permanent: false,
+      },
+    };
+  }
+
+  // Get the credits
+  let credits: PersonCombinedCreditsResponse;
+
+  try {
+    credits = await getPersonCredits({ id: personId });
+  } catch (error) {
+    return {
+      redirect: {
+        destination: `/person/${personId}`,
+        permanent: false,
+      },
+    };
+  }
+
+  // Current user
+  let user: AuthUser;
+
+  try {
+    user = await authUser({ cookie: req.headers.cookie ?? '' });
+  } catch (error) {
+    user = { auth: false };
+  }
+
+  // Return it all!
+  return {
+    props: {
+      user,
+      person,
+      credits,
+    },
+  };
+};
+
+// Component
+const Filmography: NextPage<InferGetServerSidePropsType<typeof getServerSideProps>> = ({
+  person,
+  credits,
+}) => {
+  // Hooks
+  const router = useRouter();
+
+  // Derived state
+  const filmography = formatFilmography(credits);
+
+  const departments = filmography
+    .reduce<string[]>(
+      (all, credit) => [...all, ...credit.departments.filter((name) => !all.includes(name))],
+      []
+    )
+    .sort((a, b) => a.localeCompare(b));
+
+  const media = parseOption(router.query.media, medias);
+  const department = parseOption(router.query.department, ['all', ...departments]);
+  const sort = parseOption(router.query.sort, sorts);
+
+  const filteredCredits = filmography.filter(
+    (credit) =>
+      (media === 'all' || credit.item.type === media) &&
+      (department === 'all' || credit.departments.includes(department))
+  );
+
+  const upcoming = filteredCredits
+    .filter((credit) => !credit.date || isFuture(parseISO(credit.date)))
+    .sort((a, b) => {
+      // Undated projects are the furthest away
+      if (!a.date || !b.date) {
+        return !a.date && !b.date ? b.popularity - a.popularity : !a.date ? 1 : -1;
+      }
+
+      return compareAsc(parseISO(a.date), parseISO(b.date));
+    });
+
+  const released = filteredCredits
+    .filter((credit) => credit.date && !isFuture(parseISO(credit.date)))
+    .sort((a, b) =>
+      sort === 'popularity'
+        ? b.popularity - a.popularity
+        : compareDesc(parseISO(a.date as string), parseISO(b.date as string))
+    );
+
+  // Handlers
+  const updateQuery = (key: 'media' | 'department' | 'sort', value: string) => {
+    const newQuery = { ...router.query };
+
+    newQuery[key] = value;
+
+    // Update url
+    router.replace(
+      {
+        pathname: router.pathname,
+        query: newQuery,
+      },
+      undefined,
+      { shallow: true, scroll: false }
+    );
+  };
+
+  const renderCredits = (title: string, sectionCredits: FilmographyCredit[]) => (
+    <div className="mt-12">
+      <div className="border-b border-gray-200 pb-5">
+        <h3 className="text-lg font-medium leading-6 text-gray-900">
+          {title} <span className="font-light text-gray-500">{sectionCredits.length}</span>
+        </h3>
+      </div>
+
+      {sectionCredits.length > 0 ? (
+        <ul className="mt-8 grid grid-cols-2 gap-x-4 gap-y-8 sm:grid-cols-4 lg:grid-cols-8">
+          {sectionCredits.map((credit) => (
+            <li key={`${credit.item.type}-${credit.item.tmdbId}`} className="relative">
+              <ListItem item={credit.item} action="add" />
+
+              {credit.roles.length > 0 ? (
+                <p className="pointer-events-none block truncate text-xs text-gray-400">
+                  {credit.roles.join(', ')}
+                </p>
+              ) : null}
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="mt-8 text-sm text-gray-500">No credits found.</p>
+      )}
+    </div>
+  );
+
+  // Render
+  return (
+    <DetailsLayout>
+      <Head>
+        <title>{person.name} filmography • Movies</title>
+      </Head>
+
+      <DetailsBanner
+        theme="person"
+        title={person.name ?? 'Unknown name'}
+        poster={person.profile_path}
+        backHref={`/person/${person.id}`}
+        backLabel="Back to main"
+      />
+
+      <div className="mx-auto mt-8 max-w-7xl px-4 sm:px-6 lg:px-8">
+        <div className="border-b border-gray-200 sm:flex sm:items-center sm:justify-between">
+          <nav className="-mb-px flex space-x-8" aria-label="Media type">
+            <TabButton current={media === 'all'} onClick={() => updateQuery('media', 'all')}>
+              All
+            </TabButton>
+
+            <TabButton current={media === 'movie'} onClick={() => updateQuery('media', 'movie')}>
+              Movie
+            </TabButton>
+
+            <TabButton current={media === 'tv'} onClick={() => updateQuery('media', 'tv')}>
+              TV Show
+            </TabButton>
+          </nav>
+
+          <div className="flex space-x-3 py-3">
+            <div>
+              <label htmlFor="department" className="sr-only">
+                Department
+              </label>
+              <select
+                id="department"
+                name="department"
+                className="block w-full rounded-md border-gray-300 py-2 pl-3 pr-10 text-base focus:border-indigo-500 focus:outline-none focus:ring-indigo-500 sm:text-sm"
+                value={department}
+                onChange={(event) => updateQuery('department', event.target.value)}
+              >
+                <option value="all">All departments</option>
+                {departments.map((name) => (
+                  <option key={name} value={name}>
+                    {name}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label htmlFor="sort" className="sr-only">
+                Sort by
+              </label>
+              <select
+                id="sort"
+                name="sort"
+                className="block w-full rounded-md border-gray-300 py-2 pl-3 pr-10 text-base focus:border-indigo-500 focus:outline-none focus:ring-indigo-500 sm:text-sm"
+                value={sort}
+                onChange={(event) => updateQuery('sort', event.target.value)}
+              >
+                <option value="date">Newest first</option>
+                <option value="popularity">Most popular</option>
+              </select>
+            </div>
+          </div>
+        </div>
+
+        {upcoming.length > 0 ? renderCredits('Upcoming', upcoming) : null}
+
+        {renderCredits('Released', released)}
+      </div>
+    </DetailsLayout>
+  );
+};
+
+export default Filmography;
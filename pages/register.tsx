@@ -5,12 +5,14 @@ import Link from 'next/link';
 import { useRouter } from 'next/router';
 
 import Alert from '../components/assets/Alert';
+import PasswordRules from '../components/account/PasswordRules';
 import HomeLayout from '../components/layouts/Home';
 
 import { useUserDispatch } from '../hooks/useUser';
 
 import { authUser, registerUser } from '../lib/api/auth';
 import { ApiError } from '../lib/api';
+import { isStrongPassword } from '../lib/password';
 
 // SSR
 export const getServerSideProps: GetServerSideProps = async ({ req }) => {
@@ -52,7 +54,9 @@ const Register: NextPage = () => {
   const handleSubmit = (event: React.FormEvent<HTMLFormElement>) => {
     event.preventDefault();
 
-    if (password !== confirm) {
+    if (!isStrongPassword(password)) {
+      setError('Password does not meet the requirements');
+    } else if (password !== confirm) {
       setError('Passwords do not match');
     } else {
       setError(undefined);
@@ -68,6 +72,8 @@ const Register: NextPage = () => {
                 id: user.id,
                 name: user.name,
                 email: user.email,
+                emailVerified: user.emailVerified,
+                region: user.region,
               },
             },
           });
@@ -152,6 +158,7 @@ const Register: NextPage = () => {
                 type="password"
                 autoComplete="password"
                 required
+                aria-describedby="password-rules"
                 className="relative block w-full appearance-none rounded-none rounded-t-md border border-gray-300 px-3 py-2 text-gray-900 placeholder-gray-500 focus:z-10 focus:border-indigo-500 focus:outline-none focus:ring-indigo-500 sm:text-sm"
                 placeholder="Password"
                 value={password}
@@ -176,6 +183,8 @@ const Register: NextPage = () => {
             </div>
           </div>
 
+          <PasswordRules id="password-rules" password={password} />
+
           <div>
             <button
               type="submit"
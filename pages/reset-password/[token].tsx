@@ -0,0 +1,234 @@
+import { useEffect, useState } from 'react';
+import { GetServerSideProps, InferGetServerSidePropsType, NextPage } from 'next';
+import Head from 'next/head';
+import Link from 'next/link';
+import { useRouter } from 'next/router';
+
+import HomeLayout from '../../components/layouts/Home';
+import Alert from '../../components/assets/Alert';
+import PasswordRules from '../../components/account/PasswordRules';
+
+import { authUser, checkResetToken, resetPassword } from '../../lib/api/auth';
+import { ApiError } from '../../lib/api';
+import { isStrongPassword } from '../../lib/password';
+
+// Types
+type TokenStatus = 'valid' | 'invalid' | 'expired' | 'used' | 'error';
+
+type ServerSideResponse = {
+  token: string;
+  status: TokenStatus;
+};
+
+// Constants
+const statusMessages: Record<Exclude<TokenStatus, 'valid'>, string> = {
+  invalid: 'This reset link is not valid. Check you copied the whole link from the email.',
+  expired: 'This reset link has expired.',
+  used: 'This reset link has already been used.',
+  error: 'Unable to check this reset link, please try again.',
+};
+
+// Helpers
+const tokenStatus = (error: ApiError): TokenStatus => {
+  switch (error.status) {
+    case 400:
+    case 404:
+      return 'invalid';
+    case 409:
+      return 'used';
+    case 410:
+      return 'expired';
+    default:
+      // Network failures and server errors say nothing about the link itself
+      return 'error';
+  }
+};
+
+// SSR
+export const getServerSideProps: GetServerSideProps<ServerSideResponse> = async ({
+  req,
+  query,
+}) => {
+  // Redirect if we're already logged in
+  try {
+    const user = await authUser({ cookie: req.headers.cookie ?? '' });
+
+    if (user.auth) {
+      return {
+        redirect: {
+          destination: '/',
+          permanent: false,
+        },
+      };
+    }
+  } catch (error) {
+    // Carry on, resetting doesn't need a session
+  }
+
+  const token = (query.token ?? '').toString();
+
+  // Check the token before showing the form
+  let status: TokenStatus;
+
+  try {
+    await checkResetToken(token);
+
+    status = 'valid';
+  } catch (error) {
+    status = tokenStatus(error as ApiError);
+  }
+
+  return {
+    props: {
+      token,
+      status,
+    },
+  };
+};
+
+// Component
+const ResetPassword: NextPage<InferGetServerSidePropsType<typeof getServerSideProps>> = (props) => {
+  // Hooks
+  const router = useRouter();
+
+  // Local state
+  const [password, setPassword] = useState('');
+  const [confirm, setConfirm] = useState('');
+
+  const [status, setStatus] = useState<TokenStatus>(props.status);
+  const [submitLoading, setSubmitLoading] = useState(false);
+  const [error, setError] = useState<string | undefined>(undefined);
+
+  // Effects
+  useEffect(() => {
+    // Trying again checks the link on the server once more
+    setStatus(props.status);
+  }, [props.status]);
+
+  // Handlers
+  const handleSubmit = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+
+    if (!isStrongPassword(password)) {
+      setError('Password does not meet the requirements');
+    } else if (password !== confirm) {
+      setError('Passwords do not match');
+    } else {
+      setError(undefined);
+      setSubmitLoading(true);
+
+      resetPassword({ token: props.token, password })
+        .then(() => {
+          router.push({ pathname: '/sign-in', query: { reset: '1' } });
+        })
+        .catch((error: ApiError) => {
+          setSubmitLoading(false);
+
+          // The link may have expired while the form was open
+          if (error.status === 404 || error.status === 409 || error.status === 410) {
+            setStatus(tokenStatus(error));
+          } else {
+            setError(error.message);
+          }
+        });
+    }
+  };
+
+  // Render
+  return (
+    <HomeLayout>
+      <Head>
+        <title>Reset password</title>
+      </Head>
+
+      <div className="mx-auto mt-10 max-w-md space-y-8 px-4 sm:px-6">
+        <div>
+          <h2 className="text-center text-3xl font-extrabold text-gray-900">
+            Choose a new password
+          </h2>
+        </div>
+
+        {status !== 'valid' ? (
+          <>
+            <Alert type="error" message={statusMessages[status]} />
+
+            <p className="text-center text-sm text-gray-600">
+              {status === 'error' ? (
+                <Link href={`/reset-password/${encodeURIComponent(props.token)}`}>
+                  <a className="font-medium text-indigo-600 hover:text-indigo-500">Try again</a>
+                </Link>
+              ) : (
+                <Link href="/forgot-password">
+                  <a className="font-medium text-indigo-600 hover:text-indigo-500">
+                    Send me a new reset link
+                  </a>
+                </Link>
+              )}
+            </p>
+          </>
+        ) : (
+          <>
+            {error ? (
+              <Alert type="error" message={error} onClose={() => setError(undefined)} />
+            ) : null}
+
+            <form className="mt-8 space-y-6" onSubmit={handleSubmit}>
+              <div className="-space-y-px rounded-md shadow-sm">
+                <div>
+                  <label htmlFor="password" className="sr-only">
+                    New password
+                  </label>
+                  <input
+                    id="password"
+                    name="password"
+                    type="password"
+                    autoComplete="new-password"
+                    required
+                    aria-describedby="password-rules"
+                    className="relative block w-full appearance-none rounded-none rounded-t-md border border-gray-300 px-3 py-2 text-gray-900 placeholder-gray-500 focus:z-10 focus:border-indigo-500 focus:outline-none focus:ring-indigo-500 sm:text-sm"
+                    placeholder="New password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                  />
+                </div>
+                <div>
+                  <label htmlFor="confirm" className="sr-only">
+                    Confirm new password
+                  </label>
+                  <input
+                    id="confirm"
+                    name="confirm"
+                    type="password"
+                    autoComplete="new-password"
+                    required
+                    className="relative block w-full appearance-none rounded-none rounded-b-md border border-gray-300 px-3 py-2 text-gray-900 placeholder-gray-500 focus:z-10 focus:border-indigo-500 focus:outline-none focus:ring-indigo-500 sm:text-sm"
+                    placeholder="Confirm new password"
+                    value={confirm}
+                    onChange={(e) => setConfirm(e.target.value)}
+                  />
+                </div>
+              </div>
+
+              <PasswordRules id="password-rules" password={password} />
+
+              <div>
+                <button
+                  type="submit"
+                  className={
+                    `group relative flex w-full justify-center rounded-md border border-transparent bg-indigo-600 px-4 py-2 text-sm font-medium text-white focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2` +
+                    (submitLoading ? ` opacity-75` : ` hover:bg-indigo-700`)
+                  }
+                  disabled={submitLoading}
+                >
+                  {submitLoading ? `Please wait...` : `Reset password`}
+                </button>
+              </div>
+            </form>
+          </>
+        )}
+      </div>
+    </HomeLayout>
+  );
+};
+
+export default ResetPassword;
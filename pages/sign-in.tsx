@@ -64,6 +64,8 @@ const SignIn: NextPage = () => {
               id: user.id,
               name: user.name,
               email: user.email,
+              emailVerified: user.emailVerified,
+              region: user.region,
             },
           },
         });
@@ -99,6 +101,13 @@ const SignIn: NextPage = () => {
           </p>
         </div>
 
+        {router.query.reset && !error ? (
+          <Alert
+            type="success"
+            message="Your password has been reset, sign in with your new password"
+          />
+        ) : null}
+
         {error ? <Alert type="error" message={error} onClose={() => setError(undefined)} /> : null}
 
         <form className="mt-8 space-y-6" onSubmit={handleSubmit}>
@@ -137,6 +146,14 @@ const SignIn: NextPage = () => {
             </div>
           </div>
 
+          <div className="flex justify-end">
+            <Link href="/forgot-password">
+              <a className="text-sm font-medium text-indigo-600 hover:text-indigo-500">
+                Forgot your password?
+              </a>
+            </Link>
+          </div>
+
           <div>
             <button
               type="submit"
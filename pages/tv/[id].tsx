@@ -1,19 +1,44 @@
 import type { GetServerSideProps, NextPage, InferGetServerSidePropsType } from 'next';
 import Head from 'next/head';
 import Image from 'next/image';
-import type { CreditsResponse } from 'moviedb-promise/dist/request-types';
+import Link from 'next/link';
+import type {
+  CreditsResponse,
+  TvKeywordsResponse,
+  TvResultsResponse,
+  TvSimilarShowsResponse,
+  VideosResponse,
+  WatchProviderResponse,
+} from 'moviedb-promise/dist/request-types';
 import { CalendarIcon, ClockIcon, FilmIcon, PlusSmIcon } from '@heroicons/react/solid';
 
 import DetailsLayout from '../../components/layouts/Details';
 import Rating from '../../components/assets/Rating';
 import ListItem from '../../components/lists/ListItem';
+import PersonalRating from '../../components/lists/PersonalRating';
+import Trailers from '../../components/videos/Trailers';
+import Gallery from '../../components/images/Gallery';
+import BrowseLinks from '../../components/browse/BrowseLinks';
+import Keywords from '../../components/browse/Keywords';
+import WatchProviders from '../../components/providers/WatchProviders';
 
 import { useListModalDispatch } from '../../hooks/useListModal';
 
-import type { ExtShowResponse } from '../../lib/api';
-import { getTvShow, getTvCredits } from '../../lib/api/tvShow';
+import { ExtShowResponse, optionalFetch } from '../../lib/api';
+import {
+  getTvShow,
+  getTvCredits,
+  getTvRecommendations,
+  getSimilarTvShows,
+  getTvVideos,
+  getTvImages,
+  getTvWatchProviders,
+  getTvKeywords,
+} from '../../lib/api/tvShow';
 import { formatRuntime, formatShortDate, formatYear } from '../../lib/dates';
-import { formatTvShow } from '../../lib/format';
+import { formatCast, formatTvShow } from '../../lib/format';
+import { formatImages, GalleryImage, imageUrl } from '../../lib/images';
+import { resolveRegion } from '../../lib/regions';
 import { AuthUser, authUser } from '../../lib/api/auth';
 
 // Types
@@ -21,6 +46,13 @@ type ServerSideResponse = {
   user: AuthUser;
   tvShow: ExtShowResponse;
   credits?: CreditsResponse;
+  recommendations?: TvResultsResponse;
+  providers?: WatchProviderResponse;
+  region: string;
+  videos?: VideosResponse;
+  images?: GalleryImage[];
+  keywords?: TvKeywordsResponse;
+  similar?: TvSimilarShowsResponse;
 };
 
 // SSR
@@ -63,23 +95,21 @@ export const getServerSideProps: GetServerSideProps<ServerSideResponse> = async
     };
   }
 
-  // Get the credits
-  let credits: CreditsResponse | undefined;
+  // Everything else is independent, so fetch it all at once
+  const [credits, providers, videos, images, keywords, recommendations, similar, user] =
+    await Promise.all([
+      optionalFetch(getTvCredits({ id: tvShowId })),
+      optionalFetch(getTvWatchProviders({ id: tvShowId })),
+      optionalFetch(getTvVideos({ id: tvShowId })),
+      optionalFetch(getTvImages({ id: tvShowId }).then(formatImages)),
+      optionalFetch(getTvKeywords({ id: tvShowId })),
+      optionalFetch(getTvRecommendations({ id: tvShowId })),
+      optionalFetch(getSimilarTvShows({ id: tvShowId })),
+      authUser({ cookie: req.headers.cookie ?? '' }).catch((): AuthUser => ({ auth: false })),
+    ]);
 
-  try {
-    credits = await getTvCredits({ id: tvShowId });
-  } catch (error) {
-    credits = undefined;
-  }
-
-  // Current user
-  let user: AuthUser;
-
-  try {
-    user = await authUser({ cookie: req.headers.cookie ?? '' });
-  } catch (error) {
-    user = { auth: false };
-  }
+  // Saved preference, or a best guess from the browser
+  const region = resolveRegion(user, req.headers['accept-language']);
 
   // Return it all!
   return {
@@ -87,6 +117,13 @@ export const getServerSideProps: GetServerSideProps<ServerSideResponse> = async
       user,
       tvShow,
       credits,
+      providers,
+      region,
+      videos,
+      images,
+      keywords,
+      recommendations,
+      similar,
     },
   };
 };
@@ -95,10 +132,27 @@ export const getServerSideProps: GetServerSideProps<ServerSideResponse> = async
 const TvShow: NextPage<InferGetServerSidePropsType<typeof getServerSideProps>> = ({
   tvShow,
   credits,
+  providers,
+  region,
+  videos,
+  images,
+  keywords,
+  recommendations,
+  similar,
 }) => {
   // Hooks
   const listModalDispatch = useListModalDispatch();
 
+  // Derived state
+  const recommended = (recommendations?.results ?? []).slice(0, 8).map(formatTvShow);
+  const recommendedIds = recommended.map((item) => item.tmdbId);
+
+  // Skip anything already recommended
+  const moreLikeThis = (similar?.results ?? [])
+    .map(formatTvShow)
+    .filter((item) => !recommendedIds.includes(item.tmdbId))
+    .slice(0, 8);
+
   // Render
   return (
     <DetailsLayout>
@@ -110,7 +164,7 @@ const TvShow: NextPage<InferGetServerSidePropsType<typeof getServerSideProps>> =
         className="bg-cover bg-right-top bg-no-repeat sm:bg-[right_-200px_top]"
         style={{
           backgroundImage: tvShow.backdrop_path
-            ? `url(https://www.themoviedb.org/t/p/w1920_and_h800_multi_faces/${tvShow.backdrop_path})`
+            ? `url(${imageUrl(tvShow.backdrop_path, 'w1920_and_h800_multi_faces')})`
             : undefined,
         }}
       >
@@ -120,7 +174,7 @@ const TvShow: NextPage<InferGetServerSidePropsType<typeof getServerSideProps>> =
               <div className="aspect-w-2 aspect-h-3 overflow-hidden rounded-lg">
                 {tvShow.poster_path ? (
                   <Image
-                    src={`https://www.themoviedb.org/t/p/w600_and_h900_bestv2${tvShow.poster_path}`}
+                    src={imageUrl(tvShow.poster_path, 'w600_and_h900_bestv2')}
                     alt={tvShow.name}
                     layout="fill"
                     className="object-cover"
@@ -147,7 +201,7 @@ const TvShow: NextPage<InferGetServerSidePropsType<typeof getServerSideProps>> =
 
                 <div className="mt-2 flex items-center text-sm font-light text-gray-200">
                   <FilmIcon className="mr-1.5 h-5 w-5 flex-shrink-0 text-gray-300" />
-                  {tvShow.genres?.map((genre) => genre.name).join(', ')}
+                  <BrowseLinks items={tvShow.genres ?? []} href={(id) => `/genre/${id}?media=tv`} />
                 </div>
 
                 {tvShow.episode_run_time ? (
@@ -161,6 +215,8 @@ const TvShow: NextPage<InferGetServerSidePropsType<typeof getServerSideProps>> =
               <div className="mt-6 flex items-center space-x-6">
                 {tvShow.vote_average ? <Rating rating={tvShow.vote_average} /> : null}
 
+                <PersonalRating item={formatTvShow(tvShow)} />
+
                 <button
                   type="button"
                   className="ml-6 inline-flex items-center rounded-md border border-transparent bg-fuchsia-100 py-2 pl-4 pr-5 text-sm font-medium text-fuchsia-700 shadow-sm hover:bg-fuchsia-200 focus:outline-none focus:ring-2 focus:ring-fuchsia-500 focus:ring-offset-2 focus:ring-offset-fuchsia-700"
@@ -183,38 +239,133 @@ const TvShow: NextPage<InferGetServerSidePropsType<typeof getServerSideProps>> =
               <div className="mt-1">
                 <p className="font-light leading-7 text-gray-200">{tvShow.overview}</p>
               </div>
+
+              {tvShow.networks && tvShow.networks.length > 0 ? (
+                <p className="mt-6 text-sm font-light text-gray-200">
+                  <span className="font-medium">Network</span>{' '}
+                  <BrowseLinks items={tvShow.networks} href={(id) => `/network/${id}`} />
+                </p>
+              ) : null}
+
+              {tvShow.production_companies && tvShow.production_companies.length > 0 ? (
+                <p className="mt-2 text-sm font-light text-gray-200">
+                  <span className="font-medium">Production</span>{' '}
+                  <BrowseLinks
+                    items={tvShow.production_companies}
+                    href={(id) => `/company/${id}`}
+                  />
+                </p>
+              ) : null}
             </div>
           </div>
         </div>
       </div>
 
+      {providers ? <WatchProviders key={tvShow.id} providers={providers} region={region} /> : null}
+
       <div className="mx-auto mt-12 max-w-7xl px-4 sm:px-6 lg:px-8">
-        <div className="border-b border-gray-200 pb-5">
+        <div className="border-b border-gray-200 pb-5 sm:flex sm:items-center sm:justify-between">
           <h3 className="text-lg font-medium leading-6 text-gray-900">Series cast</h3>
+          <div className="mt-3 sm:mt-0 sm:ml-4">
+            <Link href={`/tv/${tvShow.id}/credits`}>
+              <a className="text-sm font-medium text-indigo-600 hover:text-indigo-500">
+                Full cast &amp; crew
+              </a>
+            </Link>
+          </div>
         </div>
 
         {credits?.cast ? (
           <ul className="mt-8 grid grid-cols-2 gap-x-4 gap-y-8 sm:grid-cols-4 lg:grid-cols-8">
             <>
-              {credits.cast.slice(0, 8).map((result) => (
-                <li key={result.id} className="relative">
-                  <ListItem
-                    item={{
-                      tmdbId: result.id ?? 0,
-                      type: 'person',
-                      title: result.name ?? 'Unknown name',
-                      subTitle: result.character,
-                      poster: result.profile_path ?? undefined,
-                    }}
-                    showType={false}
-                    action="add"
-                  />
-                </li>
-              ))}
+              {formatCast(credits.cast)
+                .slice(0, 8)
+                .map((result) => (
+                  <li key={result.tmdbId} className="relative">
+                    <ListItem item={result} showType={false} action="add" />
+                  </li>
+                ))}
             </>
           </ul>
         ) : null}
       </div>
+
+      {tvShow.seasons && tvShow.seasons.length > 0 ? (
+        <div className="mx-auto mt-12 max-w-7xl px-4 sm:px-6 lg:px-8">
+          <div className="border-b border-gray-200 pb-5">
+            <h3 className="text-lg font-medium leading-6 text-gray-900">Seasons</h3>
+          </div>
+
+          <ul className="mt-8 grid grid-cols-2 gap-x-4 gap-y-8 sm:grid-cols-4 lg:grid-cols-8">
+            {tvShow.seasons.map((season) => (
+              <li key={season.id} className="relative">
+                <Link href={`/tv/${tvShow.id}/season/${season.season_number}`}>
+                  <a className="group aspect-w-2 aspect-h-3 block w-full overflow-hidden rounded-lg bg-gray-100 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 focus:ring-offset-gray-100">
+                    {season.poster_path ? (
+                      <Image
+                        src={imageUrl(season.poster_path, 'w220_and_h330_face')}
+                        alt=""
+                        layout="fill"
+                        className="pointer-events-none object-cover group-hover:opacity-75"
+                      />
+                    ) : null}
+
+                    <span className="sr-only">View details for {season.name}</span>
+                  </a>
+                </Link>
+
+                <p className="pointer-events-none mt-2 block truncate text-sm font-medium text-gray-900">
+                  {season.name}
+                </p>
+                <p className="pointer-events-none block text-sm font-medium text-gray-500">
+                  {season.air_date ? `${formatYear(season.air_date)} • ` : null}
+                  {season.episode_count} {season.episode_count === 1 ? `episode` : `episodes`}
+                </p>
+              </li>
+            ))}
+          </ul>
+        </div>
+      ) : null}
+
+      {videos?.results ? <Trailers videos={videos.results} /> : null}
+
+      {images ? (
+        <Gallery key={tvShow.id} images={images} alt={tvShow.name ?? 'Unknown title'} />
+      ) : null}
+
+      {keywords?.results ? <Keywords keywords={keywords.results} /> : null}
+
+      {recommended.length > 0 ? (
+        <div className="mx-auto mt-12 max-w-7xl px-4 sm:px-6 lg:px-8">
+          <div className="border-b border-gray-200 pb-5">
+            <h3 className="text-lg font-medium leading-6 text-gray-900">Recommended</h3>
+          </div>
+
+          <ul className="mt-8 grid grid-cols-2 gap-x-4 gap-y-8 sm:grid-cols-4 lg:grid-cols-8">
+            {recommended.map((result) => (
+              <li key={result.tmdbId} className="relative">
+                <ListItem item={result} showType={false} action="add" />
+              </li>
+            ))}
+          </ul>
+        </div>
+      ) : null}
+
+      {moreLikeThis.length > 0 ? (
+        <div className="mx-auto mt-12 max-w-7xl px-4 sm:px-6 lg:px-8">
+          <div className="border-b border-gray-200 pb-5">
+            <h3 className="text-lg font-medium leading-6 text-gray-900">More like this</h3>
+          </div>
+
+          <ul className="mt-8 grid grid-cols-2 gap-x-4 gap-y-8 sm:grid-cols-4 lg:grid-cols-8">
+            {moreLikeThis.map((result) => (
+              <li key={result.tmdbId} className="relative">
+                <ListItem item={result} showType={false} action="add" />
+              </li>
+            ))}
+          </ul>
+        </div>
+      ) : null}
     </DetailsLayout>
   );
 };
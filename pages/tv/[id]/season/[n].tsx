@@ -0,0 +1,204 @@
+import { GetServerSideProps, InferGetServerSidePropsType, NextPage } from 'next';
+import Head from 'next/head';
+import Image from 'next/image';
+import Link from 'next/link';
+import { CalendarIcon, ClockIcon, StarIcon } from '@heroicons/react/solid';
+
+import DetailsLayout from '../../../../components/layouts/Details';
+import DetailsBanner from '../../../../components/layouts/DetailsBanner';
+
+import type { ExtSeasonResponse, ExtShowResponse } from '../../../../lib/api';
+import { getTvSeason, getTvShow } from '../../../../lib/api/tvShow';
+import { formatRuntime, formatShortMonthDate, formatYear } from '../../../../lib/dates';
+import { imageUrl } from '../../../../lib/images';
+import { AuthUser, authUser } from '../../../../lib/api/auth';
+
+// Types
+type ServerSideResponse = {
+  user: AuthUser;
+  tvShow: ExtShowResponse;
+  season: ExtSeasonResponse;
+};
+
+// SSR
+export const getServerSideProps: GetServerSideProps<ServerSideResponse> = async ({
+  req,
+  query,
+}) => {
+  // Validate params
+  if (!query.id || !query.n) {
+    return {
+      redirect: {
+        destination: '/',
+        permanent: false,
+      },
+    };
+  }
+
+  const tvShowId = parseInt(query.id.toString());
+  const seasonNumber = parseInt(query.n.toString());
+
+  // Get the tv show
+  let tvShow: ExtShowResponse;
+
+  try {
+    tvShow = await getTvShow({ id: tvShowId });
+  } catch (error) {
+    return {
+      redirect: {
+        destination: '/',
+        permanent: false,
+      },
+    };
+  }
+
+  if (!tvShow.id) {
+    return {
+      redirect: {
+        destination: '/',
+        permanent: false,
+      },
+    };
+  }
+
+  // Get the season
+  let season: ExtSeasonResponse;
+
+  try {
+    season = await getTvSeason({ id: tvShowId, seasonNumber });
+  } catch (error) {
+    return {
+      redirect: {
+        destination: `/tv/${tvShowId}`,
+        permanent: false,
+      },
+    };
+  }
+
+  // Current user
+  let user: AuthUser;
+
+  try {
+    user = await authUser({ cookie: req.headers.cookie ?? '' });
+  } catch (error) {
+    user = { auth: false };
+  }
+
+  // Return it all!
+  return {
+    props: {
+      user,
+      tvShow,
+      season,
+    },
+  };
+};
+
+// Component
+const Season: NextPage<InferGetServerSidePropsType<typeof getServerSideProps>> = ({
+  tvShow,
+  season,
+}) => {
+  // Render
+  return (
+    <DetailsLayout>
+      <Head>
+        <title>
+          {tvShow.name} {season.name} • Movies
+        </title>
+      </Head>
+
+      <DetailsBanner
+        theme="tv"
+        title={season.name ?? `Season ${season.season_number}`}
+        subTitle={season.air_date ? `(${formatYear(season.air_date)})` : undefined}
+        poster={season.poster_path ?? tvShow.poster_path}
+        backHref={`/tv/${tvShow.id}`}
+        backLabel={`Back to ${tvShow.name}`}
+      />
+
+      <div className="mx-auto mt-12 max-w-7xl px-4 sm:px-6 lg:px-8">
+        {season.overview ? (
+          <p className="mb-12 max-w-4xl leading-7 text-gray-600">{season.overview}</p>
+        ) : null}
+
+        <div className="border-b border-gray-200 pb-5">
+          <h3 className="text-lg font-medium leading-6 text-gray-900">
+            Episodes{' '}
+            <span className="font-light text-gray-500">{season.episodes?.length ?? 0}</span>
+          </h3>
+        </div>
+
+        {season.episodes && season.episodes.length > 0 ? (
+          <ul className="mt-8 space-y-8">
+            {season.episodes.map((episode) => (
+              <li key={episode.id} className="sm:flex">
+                <div className="flex-none sm:w-[227px]">
+                  <Link
+                    href={`/tv/${tvShow.id}/season/${season.season_number}/episode/${episode.episode_number}`}
+                  >
+                    <a className="group aspect-w-16 aspect-h-9 block w-full overflow-hidden rounded-lg bg-gray-100 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 focus:ring-offset-gray-100">
+                      {episode.still_path ? (
+                        <Image
+                          src={imageUrl(episode.still_path, 'w454_and_h254_bestv2')}
+                          alt=""
+                          layout="fill"
+                          className="pointer-events-none object-cover group-hover:opacity-75"
+                        />
+                      ) : null}
+
+                      <span className="sr-only">View details for {episode.name}</span>
+                    </a>
+                  </Link>
+                </div>
+
+                <div className="mt-4 sm:mt-0 sm:ml-6">
+                  <h4 className="text-base font-semibold text-gray-900">
+                    <Link
+                      href={`/tv/${tvShow.id}/season/${season.season_number}/episode/${episode.episode_number}`}
+                    >
+                      <a className="hover:text-indigo-600">
+                        {episode.episode_number}. {episode.name}
+                      </a>
+                    </Link>
+                  </h4>
+
+                  <div className="mt-1 flex flex-col sm:flex-row sm:flex-wrap sm:space-x-6">
+                    {episode.air_date ? (
+                      <div className="mt-1 flex items-center text-sm text-gray-500">
+                        <CalendarIcon className="mr-1.5 h-5 w-5 flex-shrink-0 text-gray-400" />
+                        {formatShortMonthDate(episode.air_date)}
+                      </div>
+                    ) : null}
+
+                    {episode.runtime ? (
+                      <div className="mt-1 flex items-center text-sm text-gray-500">
+                        <ClockIcon className="mr-1.5 h-5 w-5 flex-shrink-0 text-gray-400" />
+                        {formatRuntime(episode.runtime)}
+                      </div>
+                    ) : null}
+
+                    {episode.vote_average ? (
+                      <div className="mt-1 flex items-center text-sm text-gray-500">
+                        <StarIcon className="mr-1.5 h-5 w-5 flex-shrink-0 text-gray-400" />
+                        {episode.vote_average.toFixed(1)}
+                      </div>
+                    ) : null}
+                  </div>
+
+                  {episode.overview ? (
+                    <p className="mt-2 text-sm leading-6 text-gray-600">{episode.overview}</p>
+                  ) : null}
+                </div>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="mt-8 text-sm text-gray-500">No episodes found.</p>
+        )}
+      </div>
+    </DetailsLayout>
+  );
+};
+
+export default Season;
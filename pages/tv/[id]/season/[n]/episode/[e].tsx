@@ -0,0 +1,258 @@
+import { GetServerSideProps, InferGetServerSidePropsType, NextPage } from 'next';
+import Head from 'next/head';
+import Image from 'next/image';
+import Link from 'next/link';
+import {
+  ArrowNarrowLeftIcon,
+  ArrowNarrowRightIcon,
+  CalendarIcon,
+  ClockIcon,
+  StarIcon,
+} from '@heroicons/react/solid';
+
+import DetailsLayout from '../../../../../../components/layouts/Details';
+import DetailsBanner from '../../../../../../components/layouts/DetailsBanner';
+import ListItem from '../../../../../../components/lists/ListItem';
+
+import type { ExtEpisode, ExtShowResponse } from '../../../../../../lib/api';
+import { getTvEpisode, getTvShow } from '../../../../../../lib/api/tvShow';
+import { formatRuntime, formatShortMonthDate } from '../../../../../../lib/dates';
+import { formatCast, formatCrew } from '../../../../../../lib/format';
+import { imageUrl } from '../../../../../../lib/images';
+import { AuthUser, authUser } from '../../../../../../lib/api/auth';
+
+// Types
+type ServerSideResponse = {
+  user: AuthUser;
+  tvShow: ExtShowResponse;
+  episode: ExtEpisode;
+};
+
+// SSR
+export const getServerSideProps: GetServerSideProps<ServerSideResponse> = async ({
+  req,
+  query,
+}) => {
+  // Validate params
+  if (!query.id || !query.n || !query.e) {
+    return {
+      redirect: {
+        destination: '/',
+        permanent: false,
+      },
+    };
+  }
+
+  const tvShowId = parseInt(query.id.toString());
+  const seasonNumber = parseInt(query.n.toString());
+  const episodeNumber = parseInt(query.e.toString());
+
+  // Get the tv show
+  let tvShow: ExtShowResponse;
+
+  try {
+    tvShow = await getTvShow({ id: tvShowId });
+  } catch (error) {
+    return {
+      redirect: {
+        destination: '/',
+        permanent: false,
+      },
+    };
+  }
+
+  if (!tvShow.id) {
+    return {
+      redirect: {
+        destination: '/',
+        permanent: false,
+      },
+    };
+  }
+
+  // Get the episode
+  let episode: ExtEpisode;
+
+  try {
+    episode = await getTvEpisode({ id: tvShowId, seasonNumber, episodeNumber });
+  } catch (error) {
+    return {
+      redirect: {
+        destination: `/tv/${tvShowId}/season/${seasonNumber}`,
+        permanent: false,
+      },
+    };
+  }
+
+  // Current user
+  let user: AuthUser;
+
+  try {
+    user = await authUser({ cookie: req.headers.cookie ?? '' });
+  } catch (error) {
+    user = { auth: false };
+  }
+
+  // Return it all!
+  return {
+    props: {
+      user,
+      tvShow,
+      episode,
+    },
+  };
+};
+
+// Component
+const Episode: NextPage<InferGetServerSidePropsType<typeof getServerSideProps>> = ({
+  tvShow,
+  episode,
+}) => {
+  // Derived state
+  const season = tvShow.seasons?.find((season) => season.season_number === episode.season_number);
+  const seasonHref = `/tv/${tvShow.id}/season/${episode.season_number}`;
+
+  const episodeNumber = episode.episode_number ?? 0;
+  const hasPrevious = episodeNumber > 1;
+  const hasNext = season?.episode_count ? episodeNumber < season.episode_count : false;
+
+  const guestStars = formatCast(episode.guest_stars ?? []);
+  const departments = formatCrew(episode.crew ?? []);
+
+  // Render
+  return (
+    <DetailsLayout>
+      <Head>
+        <title>
+          {tvShow.name} S{episode.season_number}E{episode.episode_number} • Movies
+        </title>
+      </Head>
+
+      <DetailsBanner
+        theme="tv"
+        title={tvShow.name ?? 'Unknown name'}
+        subTitle={season?.name}
+        poster={season?.poster_path ?? tvShow.poster_path}
+        backHref={seasonHref}
+        backLabel={`Back to ${season?.name ?? `season ${episode.season_number}`}`}
+      />
+
+      <div className="mx-auto mt-12 max-w-7xl px-4 sm:px-6 lg:px-8">
+        <div className="sm:flex">
+          <div className="flex-none sm:w-[454px]">
+            <div className="aspect-w-16 aspect-h-9 overflow-hidden rounded-lg bg-gray-100">
+              {episode.still_path ? (
+                <Image
+                  src={imageUrl(episode.still_path, 'w454_and_h254_bestv2')}
+                  alt={episode.name}
+                  layout="fill"
+                  className="object-cover"
+                />
+              ) : null}
+            </div>
+          </div>
+
+          <div className="mt-6 sm:mt-0 sm:ml-10">
+            <p className="text-sm font-medium uppercase tracking-wide text-fuchsia-700">
+              Season {episode.season_number}, episode {episode.episode_number}
+            </p>
+            <h2 className="mt-1 text-2xl font-bold leading-7 text-gray-900 sm:text-3xl">
+              {episode.name}
+            </h2>
+
+            <div className="mt-1 flex flex-col sm:mt-0 sm:flex-row sm:flex-wrap sm:space-x-6">
+              {episode.air_date ? (
+                <div className="mt-2 flex items-center text-sm text-gray-500">
+                  <CalendarIcon className="mr-1.5 h-5 w-5 flex-shrink-0 text-gray-400" />
+                  {formatShortMonthDate(episode.air_date)}
+                </div>
+              ) : null}
+
+              {episode.runtime ? (
+                <div className="mt-2 flex items-center text-sm text-gray-500">
+                  <ClockIcon className="mr-1.5 h-5 w-5 flex-shrink-0 text-gray-400" />
+                  {formatRuntime(episode.runtime)}
+                </div>
+              ) : null}
+
+              {episode.vote_average ? (
+                <div className="mt-2 flex items-center text-sm text-gray-500">
+                  <StarIcon className="mr-1.5 h-5 w-5 flex-shrink-0 text-gray-400" />
+                  {episode.vote_average.toFixed(1)}
+                </div>
+              ) : null}
+            </div>
+
+            <p className="mt-6 leading-7 text-gray-600">
+              {episode.overview || 'No overview found.'}
+            </p>
+          </div>
+        </div>
+
+        <nav className="mt-12 flex items-center justify-between border-t border-gray-200 px-4 sm:px-0">
+          <div className="-mt-px flex w-0 flex-1">
+            {hasPrevious ? (
+              <Link href={`${seasonHref}/episode/${episodeNumber - 1}`}>
+                <a className="inline-flex items-center border-t-2 border-transparent pt-4 pr-1 text-sm font-medium text-gray-500 hover:border-gray-300 hover:text-gray-700">
+                  <ArrowNarrowLeftIcon className="mr-3 h-5 w-5 text-gray-400" aria-hidden="true" />
+                  Previous episode
+                </a>
+              </Link>
+            ) : null}
+          </div>
+
+          <div className="-mt-px flex w-0 flex-1 justify-end">
+            {hasNext ? (
+              <Link href={`${seasonHref}/episode/${episodeNumber + 1}`}>
+                <a className="inline-flex items-center border-t-2 border-transparent pt-4 pl-1 text-sm font-medium text-gray-500 hover:border-gray-300 hover:text-gray-700">
+                  Next episode
+                  <ArrowNarrowRightIcon className="ml-3 h-5 w-5 text-gray-400" aria-hidden="true" />
+                </a>
+              </Link>
+            ) : null}
+          </div>
+        </nav>
+      </div>
+
+      {guestStars.length > 0 ? (
+        <div className="mx-auto mt-12 max-w-7xl px-4 sm:px-6 lg:px-8">
+          <div className="border-b border-gray-200 pb-5">
+            <h3 className="text-lg font-medium leading-6 text-gray-900">Guest stars</h3>
+          </div>
+
+          <ul className="mt-8 grid grid-cols-2 gap-x-4 gap-y-8 sm:grid-cols-4 lg:grid-cols-8">
+            {guestStars.map((result) => (
+              <li key={result.tmdbId} className="relative">
+                <ListItem item={result} showType={false} action="add" />
+              </li>
+            ))}
+          </ul>
+        </div>
+      ) : null}
+
+      {departments.length > 0 ? (
+        <div className="mx-auto mt-12 max-w-7xl px-4 sm:px-6 lg:px-8">
+          <div className="border-b border-gray-200 pb-5">
+            <h3 className="text-lg font-medium leading-6 text-gray-900">Crew</h3>
+          </div>
+
+          {departments.map(({ department, crew }) => (
+            <div key={department} className="mt-8">
+              <h4 className="text-base font-semibold text-gray-700">{department}</h4>
+
+              <ul className="mt-4 grid grid-cols-2 gap-x-4 gap-y-8 sm:grid-cols-4 lg:grid-cols-8">
+                {crew.map((result) => (
+                  <li key={result.tmdbId} className="relative">
+                    <ListItem item={result} showType={false} action="add" />
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      ) : null}
+    </DetailsLayout>
+  );
+};
+
+export default Episode;
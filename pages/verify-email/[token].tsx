@@ -0,0 +1,168 @@
+import { useState } from 'react';
+import { GetServerSideProps, InferGetServerSidePropsType, NextPage } from 'next';
+import Head from 'next/head';
+import Link from 'next/link';
+
+import HomeLayout from '../../components/layouts/Home';
+import Alert from '../../components/assets/Alert';
+
+import { useUserDispatch, useUserState } from '../../hooks/useUser';
+
+import { AuthUser, authUser, verifyEmail } from '../../lib/api/auth';
+import { ApiError } from '../../lib/api';
+
+// Types
+type VerifyStatus = 'verified' | 'already-verified' | 'invalid' | 'expired';
+
+type ServerSideResponse = {
+  user: AuthUser;
+  token: string;
+};
+
+// Constants
+const statusMessages: Record<VerifyStatus, string> = {
+  verified: 'Thanks, your email address has been verified',
+  'already-verified': 'Your email address has already been verified',
+  invalid: 'This verification link is not valid. Check you copied the whole link from the email.',
+  expired: 'This verification link has expired.',
+};
+
+// SSR
+export const getServerSideProps: GetServerSideProps<ServerSideResponse> = async ({
+  req,
+  query,
+}) => {
+  // Validate params
+  if (!query.token) {
+    return {
+      redirect: {
+        destination: '/',
+        permanent: false,
+      },
+    };
+  }
+
+  // Current user
+  let user: AuthUser;
+
+  try {
+    user = await authUser({ cookie: req.headers.cookie ?? '' });
+  } catch (error) {
+    user = { auth: false };
+  }
+
+  // Return it all!
+  return {
+    props: {
+      user,
+      token: query.token.toString(),
+    },
+  };
+};
+
+// Component
+const VerifyEmail: NextPage<InferGetServerSidePropsType<typeof getServerSideProps>> = ({
+  token,
+}) => {
+  // Hooks
+  const userState = useUserState();
+  const userDispatch = useUserDispatch();
+
+  // Local state
+  const [status, setStatus] = useState<VerifyStatus | undefined>(undefined);
+  const [submitLoading, setSubmitLoading] = useState(false);
+
+  // Derived state
+  const success = status === 'verified' || status === 'already-verified';
+
+  // Handlers
+  const handleVerify = () => {
+    setSubmitLoading(true);
+
+    // Only ever sent from a click, so link scanners and prefetching can't use up the token
+    verifyEmail(token)
+      .then((user) => {
+        if (userState.auth && userState.user.id === user.id) {
+          userDispatch({
+            type: 'SET_USER',
+            user: {
+              auth: true,
+              user: {
+                id: user.id,
+                name: user.name,
+                email: user.email,
+                emailVerified: user.emailVerified,
+                region: user.region,
+              },
+            },
+          });
+        }
+
+        setSubmitLoading(false);
+        setStatus('verified');
+      })
+      .catch((error: ApiError) => {
+        setSubmitLoading(false);
+        setStatus(
+          error.status === 410 ? 'expired' : error.status === 409 ? 'already-verified' : 'invalid'
+        );
+      });
+  };
+
+  // Render
+  return (
+    <HomeLayout>
+      <Head>
+        <title>Verify email</title>
+      </Head>
+
+      <div className="mx-auto mt-10 max-w-md space-y-8 px-4 sm:px-6">
+        <div>
+          <h2 className="text-center text-3xl font-extrabold text-gray-900">Verify your email</h2>
+        </div>
+
+        {!status ? (
+          <button
+            type="button"
+            className={
+              `group relative flex w-full justify-center rounded-md border border-transparent bg-indigo-600 px-4 py-2 text-sm font-medium text-white focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2` +
+              (submitLoading ? ` opacity-75` : ` hover:bg-indigo-700`)
+            }
+            disabled={submitLoading}
+            onClick={handleVerify}
+          >
+            {submitLoading ? `Please wait...` : `Verify my email`}
+          </button>
+        ) : (
+          <>
+            <Alert type={success ? 'success' : 'error'} message={statusMessages[status]} />
+
+            <p className="text-center text-sm text-gray-600">
+              {success ? (
+                <Link href={userState.auth ? '/lists' : '/sign-in'}>
+                  <a className="font-medium text-indigo-600 hover:text-indigo-500">
+                    {userState.auth ? 'Go to my lists' : 'Sign in'}
+                  </a>
+                </Link>
+              ) : userState.auth ? (
+                <Link href="/my-account">
+                  <a className="font-medium text-indigo-600 hover:text-indigo-500">
+                    Send me a new verification link
+                  </a>
+                </Link>
+              ) : (
+                <Link href="/sign-in">
+                  <a className="font-medium text-indigo-600 hover:text-indigo-500">
+                    Sign in to request a new verification link
+                  </a>
+                </Link>
+              )}
+            </p>
+          </>
+        )}
+      </div>
+    </HomeLayout>
+  );
+};
+
+export default VerifyEmail;